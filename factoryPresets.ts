@@ -35,25 +35,34 @@ const DEFAULT_ROUTING = {
 	filter2Resonance: false,
 	engine1Vol: false,
 	engine1SynthFreq: false,
+	engine1SynthDetune: false,
+	engine1SyncRatio: false,
 	engine1SamplerTranspose: false,
 	engine1GrainSize: false,
 	engine1GrainDensity: false,
 	engine1GrainPosition: false,
 	engine1GrainJitter: false,
+	engine1WavetablePosition: false,
 	engine2Vol: false,
 	engine2SynthFreq: false,
+	engine2SynthDetune: false,
+	engine2SyncRatio: false,
 	engine2SamplerTranspose: false,
 	engine2GrainSize: false,
 	engine2GrainDensity: false,
 	engine2GrainPosition: false,
 	engine2GrainJitter: false,
+	engine2WavetablePosition: false,
 	engine3Vol: false,
 	engine3SynthFreq: false,
+	engine3SynthDetune: false,
+	engine3SyncRatio: false,
 	engine3SamplerTranspose: false,
 	engine3GrainSize: false,
 	engine3GrainDensity: false,
 	engine3GrainPosition: false,
 	engine3GrainJitter: false,
+	engine3WavetablePosition: false,
 	// Rate Modulation
 	engine1Rate: false,
 	engine2Rate: false,
@@ -18,10 +18,11 @@ type NoiseType = "white" | "pink" | "brown";
 type LFO_Shape = "sine" | "square" | "triangle" | "rampDown" | "rampUp" | "random" | "noise" | "perlin" | "custom";
 type FilterType = "lowpass" | "highpass" | "bandpass" | "notch";
 type RandomizeMode = "chaos" | "melodic" | "rhythmic";
-type EngineLayerType = "synth" | "noise" | "sampler";
+type EngineLayerType = "synth" | "noise" | "sampler" | "fm" | "pluck" | "drum";
 type DistortionMode = "overdrive" | "soft clip" | "hard clip" | "foldback";
 type FilterRouting = "series" | "parallel";
 type VoicingMode = "poly" | "mono" | "legato" | "trill";
+type VoiceStealPolicy = "oldest" | "quietest" | "lowest" | "highest";
 
 // --- Master Effects Types ---
 type MasterEffectType =
@@ -59,12 +60,39 @@ interface MasterEffect {
 }
 
 // --- New Layered Architecture Types ---
+type SynthOscillatorType = OscillatorType | "wavetable";
+type BasicOscillatorType = Exclude<OscillatorType, "custom">;
+interface SubOscillatorState {
+	enabled: boolean;
+	octave: 1 | 2; // Octaves below the note
+	shape: BasicOscillatorType;
+	level: number; // 0 to 1
+}
+interface SyncOscillatorState {
+	enabled: boolean;
+	ratio: number; // Slave frequency as a multiple of the note, 1 to HARD_SYNC_MAX_RATIO
+	shape: BasicOscillatorType;
+	level: number; // 0 to 1
+}
+interface WavetableState {
+	frames: number[][]; // Single-cycle frames, WAVETABLE_FRAME_SIZE samples each (-1 to 1)
+	position: number; // 0-1, morphs across the frames
+	name?: string; // Source file name, if loaded
+	fileFrameSize?: number; // Samples per frame in loaded files, 0 = the whole file is one cycle
+}
 interface SynthLayerState {
 	enabled: boolean;
 	volume: number;
 	frequency: number;
-	oscillatorType: OscillatorType;
+	oscillatorType: SynthOscillatorType;
 	solfeggioFrequency: string;
+	wavetable?: WavetableState;
+	unisonVoices?: number; // 1-8 stacked oscillators per note
+	unisonDetune?: number; // Cents between the outermost voices and the centre
+	unisonSpread?: number; // 0-1, pans the stack across the stereo field
+	randomPhase?: boolean; // Start each oscillator at a random point in its cycle
+	subOscillator?: SubOscillatorState;
+	syncOscillator?: SyncOscillatorState; // Hard-synced to the note frequency
 }
 interface NoiseLayerState {
 	enabled: boolean;
@@ -85,6 +113,40 @@ interface SamplerLayerState {
 	positionJitter: number; // 0 to 1
 	liveInputEnabled: boolean;
 }
+type FMAlgorithm = "stack" | "branch";
+interface FMOperatorState {
+	ratio: number; // Multiple of the note frequency
+	index: number; // Modulation index (unused on the carrier)
+	attack: number; // seconds
+	decay: number; // seconds
+	sustain: number; // 0 to 1
+	release: number; // seconds
+}
+interface FMLayerState {
+	enabled: boolean;
+	volume: number;
+	algorithm: FMAlgorithm; // stack: 4>3>2>1, branch: 2, 3 and 4 all into 1
+	operatorCount: number; // 2-4, operator 1 is the carrier
+	operators: FMOperatorState[]; // Always four, only the first operatorCount play
+}
+type PluckExciter = "burst" | "noise";
+interface PluckLayerState {
+	enabled: boolean;
+	volume: number;
+	exciter: PluckExciter; // burst: filtered white noise, noise: the noise layer's colour
+	damping: number; // 0 to 1, loop lowpass, higher loses treble faster
+	brightness: number; // 0 to 1, exciter lowpass
+	decay: number; // seconds to fall 60 dB
+}
+type DrumModel = "kick" | "snare" | "hat" | "clap";
+interface DrumLayerState {
+	enabled: boolean;
+	volume: number;
+	model: DrumModel;
+	tone: number; // 0 to 1, pitch or filter colour of the model
+	decay: number; // 0 to 1, tail length
+	snap: number; // 0 to 1, transient: kick sweep and click, snare wires, hat shimmer, clap bursts
+}
 interface EffectState {
 	distortion: number; // 0 to 1
 	delayTime: number; // in seconds
@@ -97,6 +159,127 @@ interface ADSRState {
 	sustain: number; // 0 to 1
 	release: number; // in seconds
 }
+interface PitchEnvelopeState {
+	amount: number; // Semitones above (or below) the note at the start, -48 to 48
+	decay: number; // Seconds to settle on the note
+	curve: number; // 0 = linear, 1 = fast drop with a long tail
+}
+interface VoiceFilterState {
+	enabled: boolean;
+	type: FilterType;
+	cutoff: number; // Hz at middle C, before the envelope
+	resonance: number; // Q
+	keyTracking: number; // 0 to 1, how far the cutoff follows the note
+	envAmount: number; // Octaves the envelope moves the cutoff, -5 to 5
+	envelope: ADSRState;
+}
+
+// --- Sequencer Step Types ---
+type PlaybackDirection = "forward" | "reverse" | "pingpong" | "random" | "drunk";
+type RecordMode = "off" | "step" | "live";
+type ArpOrder = "up" | "down" | "updown" | "random" | "played";
+type EngineLinkAction = "reset" | "mute" | "trigger";
+type SequencerMode = "euclidean" | "turing" | "automaton";
+type ChordTrackMode = "transpose" | "snap";
+type EngineLinkSource = "step" | "loop";
+
+type TrigCondition =
+	| "always"
+	| "1:2"
+	| "2:2"
+	| "1:3"
+	| "2:3"
+	| "3:3"
+	| "1:4"
+	| "2:4"
+	| "3:4"
+	| "4:4"
+	| "first"
+	| "!first"
+	| "pre"
+	| "!pre"
+	| "fill"
+	| "!fill";
+
+interface SequencerStepParams {
+	probability: number; // 0 to 1
+	condition: TrigCondition;
+	velocity: number; // 0 to 1, scales the envelope peak
+	accent: boolean;
+	gate: number; // Fraction of the step the note is held
+	ratchet: number; // 1 = single hit, 2-8 = repeats within the step
+	ratchetDecay: number; // 0 = even repeats, 1 = repeats fade towards silence
+	microTiming: number; // Offset in steps, -0.5 (early) to 0.5 (late)
+	// Drum layer overrides for this step, the layer's own settings when unset
+	drumModel?: DrumModel;
+	drumTone?: number;
+	drumDecay?: number;
+}
+
+// A stored pattern slot (the active slot lives in the engine's own sequence fields)
+interface SequencerPattern {
+	sequencerSteps: number;
+	sequencerPulses: number;
+	sequencerRotate: number;
+	sequence: number[];
+	melodicSequence: number[][];
+	stepParams?: SequencerStepParams[];
+}
+
+interface PatternChainEntry {
+	pattern: number; // Slot index
+	bars: number;
+}
+
+// Sends this engine's step events to another engine
+interface EngineLink {
+	target: string; // Engine id
+	action: EngineLinkAction;
+	source: EngineLinkSource; // Every triggered step, or once per pattern cycle
+}
+
+interface TuringMachineState {
+	register: number; // Shift register bits
+	length: number; // 2-16, bits in the loop
+	lock: number; // 0 = mutates freely, 1 = frozen
+}
+
+// Elementary (Wolfram) cellular automaton, one generation per bar
+interface CellularAutomatonState {
+	rule: number; // 0-255
+	seed: number[]; // Starting row, one cell per step
+	generation: number[]; // Row currently playing
+	generationCount: number; // Generations since the seed
+}
+
+interface MarkovSettings {
+	useForRandomize: boolean; // The "melodic" randomizer follows the chain instead of picking notes independently
+	temperature: number; // 0.1-2, low favours the most common moves
+	phrase: string; // Imported phrase (note names or MIDI numbers); trains instead of the melody when set
+}
+
+// --- Chord Track Types ---
+interface ChordStep {
+	degree: number; // Scale degree of the chord root, 0 = tonic
+	seventh: boolean;
+	bars: number;
+}
+
+interface ChordTrackState {
+	enabled: boolean;
+	mode: ChordTrackMode; // Move notes diatonically with the chord, or snap them to chord tones
+	followMidi: boolean; // Re-map MIDI input as well
+	chords: ChordStep[];
+}
+
+interface ArpeggiatorState {
+	enabled: boolean;
+	order: ArpOrder;
+	octaves: number; // 1-4
+	rate: string; // One of sequencerRates
+	gate: number; // Fraction of the arp step the note is held
+	latch: boolean; // Keep playing released notes until a new chord is pressed
+}
 
 interface LFORoutingState {
 	filter1Cutoff: boolean;
@@ -105,25 +288,34 @@ interface LFORoutingState {
 	filter2Resonance: boolean;
 	engine1Vol: boolean;
 	engine1SynthFreq: boolean;
+	engine1SynthDetune: boolean;
+	engine1SyncRatio: boolean;
 	engine1SamplerTranspose: boolean;
 	engine1GrainSize: boolean;
 	engine1GrainDensity: boolean;
 	engine1GrainPosition: boolean;
 	engine1GrainJitter: boolean;
+	engine1WavetablePosition: boolean;
 	engine2Vol: boolean;
 	engine2SynthFreq: boolean;
+	engine2SynthDetune: boolean;
+	engine2SyncRatio: boolean;
 	engine2SamplerTranspose: boolean;
 	engine2GrainSize: boolean;
 	engine2GrainDensity: boolean;
 	engine2GrainPosition: boolean;
 	engine2GrainJitter: boolean;
+	engine2WavetablePosition: boolean;
 	engine3Vol: boolean;
 	engine3SynthFreq: boolean;
+	engine3SynthDetune: boolean;
+	engine3SyncRatio: boolean;
 	engine3SamplerTranspose: boolean;
 	engine3GrainSize: boolean;
 	engine3GrainDensity: boolean;
 	engine3GrainPosition: boolean;
 	engine3GrainJitter: boolean;
+	engine3WavetablePosition: boolean;
 
 	engine1Rate: boolean;
 	engine2Rate: boolean;
@@ -139,17 +331,42 @@ interface EngineState {
 	synth: SynthLayerState;
 	noise: NoiseLayerState;
 	sampler: SamplerLayerState;
+	fm?: FMLayerState;
+	pluck?: PluckLayerState;
+	drum?: DrumLayerState;
+	voiceFilter?: VoiceFilterState; // Filter created per note, before the engine mixer
+	pitchEnvelope?: PitchEnvelopeState; // Sweeps synth oscillators and the sampler into each note
 	midiControlled: boolean;
 	sequencerEnabled: boolean;
 	sequencerSteps: number;
 	sequencerPulses: number;
 	sequencerRotate: number;
 	sequencerRate: string;
+	sequencerMode?: SequencerMode; // How `sequence` is generated, Euclidean by default
+	turing?: TuringMachineState;
+	automaton?: CellularAutomatonState;
+	markov?: MarkovSettings;
+	rateRatio?: [number, number]; // [steps, against], e.g. [5, 4] plays 5 steps in the time of 4
+	swing?: number; // 0 to 1, delays every second step by up to half a step
+	playbackDirection?: PlaybackDirection;
+	patterns?: (SequencerPattern | null)[]; // PATTERN_SLOT_COUNT slots, null = empty
+	activePatternIndex?: number;
+	patternChain?: PatternChainEntry[];
+	isChainEnabled?: boolean;
+	arpeggiator?: ArpeggiatorState; // Applies to MIDI input when midiControlled is on
+	followChords?: boolean; // Re-map notes to the chord track (on by default)
+	links?: EngineLink[];
 	sequence: number[]; // 0=off, 1=on, 2=tie
+	stepParams?: SequencerStepParams[]; // Per-step trig settings, aligned with sequence
 	melodicSequence: number[][]; // Stores frequencies for each step (polyphonic)
 	useMelodicSequence: boolean; // Toggle between sequence and fixed note
 	effects: EffectState;
 	routing: LFORoutingState;
+	velocityRouting?: LFORoutingState; // Last note velocity as a mod source
+	keyRouting?: LFORoutingState; // Last note number as a mod source
+	velocityAmount?: number; // 0 = every note at full level, 1 = level follows velocity
+	maxVoices?: number; // Voices (including release tails) before one is stolen
+	voiceStealPolicy?: VoiceStealPolicy;
 	adsr: ADSRState;
 	filterDestination: "filter1" | "filter2" | "direct";
 	randomOctaveRange: number; // 1-4
@@ -246,21 +463,27 @@ interface EngineAudioNodes {
 	midiInputGain: GainNode;
 	sequencerModSource: ConstantSourceNode; // For modulation routing
 	sequencerModGate: GainNode;
+	velocityModSource: ConstantSourceNode; // Velocity of the last note, 0 to 1
+	keyModSource: ConstantSourceNode; // MIDI note of the last note, 0 to 1
 	finalOutput: GainNode;
 	analyser: AnalyserNode;
 	distortion?: WaveShaperNode;
 	delay?: DelayNode;
 	feedback?: GainNode;
+	wavetablePosition: ConstantSourceNode; // Audio-rate position, shared by the engine's wavetable voices
 }
 
 interface EngineModBusses {
 	vol: GainNode;
 	synthFreq: GainNode;
+	synthDetune: GainNode;
+	syncRatio: GainNode;
 	samplerTranspose: GainNode;
 	grainSize: GainNode;
 	grainDensity: GainNode;
 	grainPosition: GainNode;
 	grainJitter: GainNode;
+	wavetablePosition: GainNode;
 }
 
 interface FilterNodes {
@@ -280,12 +503,50 @@ interface ActiveVoice {
 	engineId: string;
 	sourceNodes: (OscillatorNode | AudioBufferSourceNode)[];
 	envelopeGain: GainNode;
+	pitchRatios?: Map<OscillatorNode, number>; // Oscillators that run at a multiple of the note frequency
+	operatorEnvelopes?: { gain: AudioParam; release: number }[]; // FM operator envelopes, released in noteOff
+	voiceFilter?: { frequency: AudioParam; base: number; release: number }; // Cutoff returns to base on release
+	drumHit?: DrumHit; // Rings past noteOff, but stealing and panic cut it
 	timeoutId?: number;
+	startTime: number;
+	peakLevel: number; // Envelope peak after velocity
+	releaseTime?: number; // Set by noteOff
     granularModeEnabled?: boolean;
     nextGrainTime?: number;
 	note: number; // Added for pitch tracking
 }
 
+interface EngineSchedulerState {
+	nextNoteTime: number;
+	currentStep: number;
+	loopCount: number; // Completed passes through the pattern
+	lastConditionResult: boolean; // Outcome of the last conditional step, read by "pre"
+	isTieHeld: boolean; // The gate is being held open into a tied step
+	heldNoteIds: string[];
+	heldFreqs: number[];
+	isMovingForward: boolean; // Ping-pong travel direction
+	stepsPlayed: number; // Steps advanced since start, used to count loops in random/drunk modes
+	beatPosition: number; // Beats elapsed at the start of the current step
+	currentBar: number;
+	chainIndex: number; // -1 until the chain has started
+	chainBarCount: number; // Bars played in the current chain entry
+	queuedPatternIndex: number | null; // Pattern switch waiting for the next bar
+	midiClockPulses: number; // MIDI clock pulses since the last step
+	recentSteps: { time: number; step: number }[]; // Recently scheduled steps, for live recording
+	isCycleStart: boolean; // The step about to play begins a new pattern cycle
+	pendingResetTime: number | null; // Set by a reset link from another engine
+	linkMuteWindows: { start: number; end: number }[]; // Set by mute links from other engines
+}
+
+interface ArpSchedulerState {
+	heldNotes: number[]; // MIDI notes in the order they were played
+	pressedNotes: Set<number>; // Keys physically held down
+	velocities: Map<number, number>; // Velocity each held note was played with
+	nextNoteTime: number;
+	index: number;
+	noteCount: number; // Used to build unique voice ids
+}
+
 // --- Preset Types ---
 interface Preset {
 	name: string;
@@ -314,6 +575,8 @@ interface Preset {
 		morphTime: number;
 		isMorphSynced: boolean;
 		morphSyncRateIndex: number;
+		globalSwing?: number;
+		chordTrack?: ChordTrackState;
 	};
 }
 
@@ -331,6 +594,10 @@ interface CircularVisualizerSequencerProps {
 	currentStep: number;
 	isTransportPlaying: boolean;
 	sequence?: number[];
+	stepParams?: SequencerStepParams[];
+	selectedStep?: number | null;
+	onStepClick?: (stepIndex: number) => void;
+	automatonGeneration?: number; // Shown in the centre when the automaton drives the sequence
 }
 
 interface EngineControlsProps {
@@ -342,6 +609,7 @@ interface EngineControlsProps {
 		updates: Partial<EngineState[K]>
 	) => void;
 	onLoadSample: (engineId: string, file: File) => void;
+	onLoadWavetable: (engineId: string, files: File[], frameSize: number) => void;
 	onRecordSampleRequest: () => Promise<MediaStream | null>;
 	onRecordSample: (engineId: string, buffer: AudioBuffer) => void;
 	onToggleLiveInput: (engineId: string, enabled: boolean) => void;
@@ -356,6 +624,19 @@ interface EngineControlsProps {
 	harmonicTuningSystem: TuningSystem;
 	scaleFrequencies: { value: number; label: string }[];
 	onSnapToScale: (engineId: string) => void;
+	onStepUpdate: (
+		engineId: string,
+		stepIndex: number,
+		updates: Partial<SequencerStepParams>
+	) => void;
+	onSelectPattern: (engineId: string, index: number) => void;
+	queuedPatternIndex?: number;
+	recordMode: RecordMode;
+	stepRecordPosition: number;
+	onRecordModeChange: (engineId: string, mode: RecordMode) => void;
+	onStepRecordRest: (engineId: string) => void;
+	onStepRecordReset: (engineId: string) => void;
+	allEngines: { id: string; name: string }[];
 }
 
 
@@ -461,6 +742,295 @@ const createPeriodicWaveFromTable = (context: AudioContext, table: number[]): Pe
 	return context.createPeriodicWave(real, imag, { disableNormalization: false });
 };
 
+// --- Wavetable Utils ---
+const WAVETABLE_FRAME_SIZE = 256;
+const WAVETABLE_MAX_FRAMES = 8;
+const WAV_FRAME_LENGTH = 2048; // Frame length used by common multi-frame wavetable WAVs
+const wavFrameLengths = [0, 256, 512, 1024, 2048, 4096];
+
+// Sine to triangle to saw to square, so a fresh table morphs through the basic shapes
+const createDefaultWavetable = (): WavetableState => {
+	const shapes = [
+		(p: number) => Math.sin(p * Math.PI * 2),
+		(p: number) => (p < 0.25 ? p * 4 : p < 0.75 ? 2 - p * 4 : p * 4 - 4),
+		(p: number) => (p < 0.5 ? p * 2 : p * 2 - 2),
+		(p: number) => (p < 0.5 ? 1 : -1),
+	];
+	return {
+		frames: shapes.map(shape =>
+			Array.from({ length: WAVETABLE_FRAME_SIZE }, (_, i) => shape(i / WAVETABLE_FRAME_SIZE))
+		),
+		position: 0,
+	};
+};
+
+// Linear resample of one cycle to the table frame size, peak-normalized
+const resampleWavetableFrame = (samples: ArrayLike<number>): number[] => {
+	const frame = Array.from({ length: WAVETABLE_FRAME_SIZE }, (_, i) => {
+		const pos = (i / WAVETABLE_FRAME_SIZE) * samples.length;
+		const index = Math.floor(pos);
+		const frac = pos - index;
+		const a = samples[index % samples.length];
+		const b = samples[(index + 1) % samples.length];
+		return a + (b - a) * frac;
+	});
+	const peak = frame.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+	return peak > 0 ? frame.map(v => v / peak) : frame;
+};
+
+// Sample rate from a WAV file's fmt chunk, or null for other formats
+const readWavSampleRate = (arrayBuffer: ArrayBuffer): number | null => {
+	const view = new DataView(arrayBuffer);
+	const tag = (offset: number) => String.fromCharCode(...new Uint8Array(arrayBuffer, offset, 4));
+	if (view.byteLength < 12 || tag(0) !== "RIFF" || tag(8) !== "WAVE") return null;
+	for (let offset = 12; offset + 8 <= view.byteLength; ) {
+		const size = view.getUint32(offset + 4, true);
+		if (tag(offset) === "fmt " && offset + 16 <= view.byteLength) return view.getUint32(offset + 12, true);
+		offset += 8 + size + (size % 2);
+	}
+	return null;
+};
+
+// Splits a decoded file into frames of `frameSize` samples at the file's own rate
+// (decoding resamples to the context rate). Long tables are thinned evenly.
+const extractWavetableFrames = (buffer: AudioBuffer, fileSampleRate: number, frameSize: number): number[][] => {
+	const data = buffer.getChannelData(0);
+	const sourceLength = Math.round(data.length * fileSampleRate / buffer.sampleRate);
+	const frameCount = frameSize > 0 ? Math.max(1, Math.round(sourceLength / frameSize)) : 1;
+	const frameLength = data.length / frameCount;
+	const picked = Math.min(frameCount, WAVETABLE_MAX_FRAMES);
+	return Array.from({ length: picked }, (_, i) => {
+		const frameIndex = picked > 1 ? Math.round((i / (picked - 1)) * (frameCount - 1)) : 0;
+		return resampleWavetableFrame(data.subarray(Math.round(frameIndex * frameLength), Math.round((frameIndex + 1) * frameLength)));
+	});
+};
+
+// --- Hard Sync Utils ---
+const HARD_SYNC_MAX_RATIO = 16;
+
+// One cycle of a basic waveform, phase 0-1
+const oscillatorShapeAt = (shape: BasicOscillatorType, phase: number): number => {
+	switch (shape) {
+		case "square":
+			return phase < 0.5 ? 1 : -1;
+		case "sawtooth":
+			return phase * 2 - 1;
+		case "triangle":
+			return phase < 0.25 ? phase * 4 : phase < 0.75 ? 2 - phase * 4 : phase * 4 - 4;
+		default:
+			return Math.sin(phase * Math.PI * 2);
+	}
+};
+
+// Maps the master phase (0-1) times ratio / HARD_SYNC_MAX_RATIO to the slave wave,
+// which restarts every time the master phase wraps
+const hardSyncCurves = new Map<BasicOscillatorType, Float32Array>();
+const getHardSyncCurve = (shape: BasicOscillatorType): Float32Array => {
+	const cached = hardSyncCurves.get(shape);
+	if (cached) return cached;
+	const half = HARD_SYNC_MAX_RATIO * 256;
+	const curve = new Float32Array(half * 2 + 1);
+	for (let i = half; i < curve.length; i++) {
+		const slavePhase = ((i - half) / half) * HARD_SYNC_MAX_RATIO;
+		curve[i] = oscillatorShapeAt(shape, slavePhase - Math.floor(slavePhase));
+	}
+	hardSyncCurves.set(shape, curve);
+	return curve;
+};
+const SAW_TO_PHASE_CURVE = new Float32Array([0, 1]);
+
+// --- Karplus-Strong Utils ---
+const PLUCK_MAX_SECONDS = 6;
+
+// Renders a plucked string: one period of excitation circulates through a fractional delay
+// with a lowpass in the loop. Rendered in JS because a DelayNode in a feedback cycle cannot
+// go below one render quantum, which would cap the pitch at a few hundred Hz.
+const renderKarplusStrong = (
+	sampleRate: number,
+	frequency: number,
+	pluck: PluckLayerState,
+	excitation?: Float32Array
+): Float32Array => {
+	const length = Math.ceil(sampleRate * Math.min(PLUCK_MAX_SECONDS, pluck.decay * 1.2 + 0.05));
+	const out = new Float32Array(length);
+	const dampingCoeff = Math.max(0, Math.min(0.9, pluck.damping * 0.9));
+	// The loop filter adds its own delay, so the delay line is shortened to keep the pitch
+	const period = Math.max(1, sampleRate / frequency - dampingCoeff / (1 - dampingCoeff));
+	const burstLength = Math.max(1, Math.round(sampleRate / frequency));
+	const feedback = Math.pow(0.001, 1 / (Math.max(0.01, pluck.decay) * frequency));
+	const exciterCoeff = 0.05 + Math.max(0, Math.min(1, pluck.brightness)) * 0.95;
+	const offset = excitation ? Math.floor(Math.random() * excitation.length) : 0;
+
+	let exciterState = 0;
+	let loopState = 0;
+	let peak = 0;
+	for (let n = 0; n < length; n++) {
+		let input = 0;
+		if (n < burstLength) {
+			const raw = excitation ? excitation[(offset + n) % excitation.length] : Math.random() * 2 - 1;
+			exciterState += (raw - exciterState) * exciterCoeff;
+			input = exciterState;
+		}
+		const readPos = n - period;
+		let delayed = 0;
+		if (readPos >= 0) {
+			const i = Math.floor(readPos);
+			const next = i + 1 < n ? out[i + 1] : out[i];
+			delayed = out[i] + (next - out[i]) * (readPos - i);
+		}
+		loopState += (delayed - loopState) * (1 - dampingCoeff);
+		out[n] = input + loopState * feedback;
+		peak = Math.max(peak, Math.abs(out[n]));
+	}
+	if (peak > 0) {
+		for (let n = 0; n < length; n++) out[n] /= peak;
+	}
+	return out;
+};
+
+// --- Drum Synthesis Utils ---
+const HAT_PARTIALS = [205.3, 304.4, 369.6, 522.7, 540, 800]; // Square-wave cluster of the classic analog hat
+
+// Schedules one drum hit into destination. Every node runs its own envelope and stops
+// itself, so hits ring out independently of the engine ADSR.
+interface DrumHit {
+	output: GainNode;
+	sources: (OscillatorNode | AudioBufferSourceNode)[];
+	endTime: number;
+}
+
+const scheduleDrumHit = (
+	context: AudioContext,
+	destination: GainNode,
+	time: number,
+	drum: DrumLayerState,
+	noise: AudioBuffer
+): DrumHit => {
+	const { tone, decay, snap } = drum;
+	const hit: DrumHit = { output: destination, sources: [], endTime: time };
+	const track = (node: OscillatorNode | AudioBufferSourceNode, stopTime: number) => {
+		node.stop(stopTime);
+		hit.sources.push(node);
+		hit.endTime = Math.max(hit.endTime, stopTime);
+	};
+	const playNoise = (filterType: BiquadFilterType, frequency: number, q: number, length: number) => {
+		const source = context.createBufferSource();
+		source.buffer = noise;
+		source.loop = true;
+		const filter = context.createBiquadFilter();
+		filter.type = filterType;
+		filter.frequency.value = frequency;
+		filter.Q.value = q;
+		const level = context.createGain();
+		level.gain.value = 0;
+		source.connect(filter).connect(level).connect(destination);
+		source.start(time, Math.random() * noise.duration);
+		track(source, time + length + 0.05);
+		return level.gain;
+	};
+	const playTone = (type: OscillatorType, frequency: number, length: number) => {
+		const osc = context.createOscillator();
+		osc.type = type;
+		osc.frequency.value = frequency;
+		const level = context.createGain();
+		level.gain.value = 0;
+		osc.connect(level).connect(destination);
+		osc.start(time);
+		track(osc, time + length + 0.05);
+		return { osc, level: level.gain };
+	};
+	const decayEnvelope = (param: AudioParam, peak: number, length: number, at = time) => {
+		param.setValueAtTime(Math.max(0.0001, peak), at);
+		param.exponentialRampToValueAtTime(0.0001, at + length);
+	};
+
+	switch (drum.model) {
+		case "kick": {
+			const length = 0.15 + decay * 1.2;
+			const base = 40 + tone * 60;
+			const { osc, level } = playTone("sine", base, length);
+			osc.frequency.setValueAtTime(base * (2 + snap * 6), time);
+			osc.frequency.exponentialRampToValueAtTime(base, time + 0.02 + (1 - snap) * 0.06);
+			decayEnvelope(level, 1, length);
+			decayEnvelope(playNoise("highpass", 3000, 0.7, 0.01), snap * 0.5, 0.01);
+			break;
+		}
+		case "snare": {
+			const length = 0.08 + decay * 0.4;
+			const body = 160 + tone * 140;
+			const { osc, level } = playTone("triangle", body, 0.15);
+			osc.frequency.setValueAtTime(body * 1.5, time);
+			osc.frequency.exponentialRampToValueAtTime(body, time + 0.03);
+			decayEnvelope(level, 1 - snap * 0.6, 0.12);
+			decayEnvelope(playNoise("highpass", 1200 + tone * 2500, 0.7, length), 0.4 + snap * 0.6, length);
+			break;
+		}
+		case "hat": {
+			// Squared decay so the low half of the range stays closed and the top opens up
+			const length = 0.03 + decay * decay * 0.8;
+			const bandpass = context.createBiquadFilter();
+			bandpass.type = "bandpass";
+			bandpass.frequency.value = 10000;
+			const highpass = context.createBiquadFilter();
+			highpass.type = "highpass";
+			highpass.frequency.value = 7000;
+			const level = context.createGain();
+			level.gain.value = 0;
+			bandpass.connect(highpass).connect(level).connect(destination);
+			HAT_PARTIALS.forEach(partial => {
+				const osc = context.createOscillator();
+				osc.type = "square";
+				osc.frequency.value = partial * (0.7 + tone * 0.8);
+				const partialGain = context.createGain();
+				partialGain.gain.value = 1 / HAT_PARTIALS.length;
+				osc.connect(partialGain).connect(bandpass);
+				osc.start(time);
+				track(osc, time + length + 0.05);
+			});
+			decayEnvelope(level.gain, 1, length);
+			decayEnvelope(playNoise("highpass", 8000, 0.7, length), snap * 0.5, length);
+			break;
+		}
+		case "clap": {
+			const bursts = 3 + Math.round(snap * 2);
+			const spacing = 0.01;
+			const tail = 0.1 + decay * 0.5;
+			const level = playNoise("bandpass", 900 + tone * 1600, 1.5, bursts * spacing + tail);
+			for (let b = 0; b < bursts - 1; b++) {
+				decayEnvelope(level, 1, spacing * 0.9, time + b * spacing);
+			}
+			decayEnvelope(level, 1, tail, time + (bursts - 1) * spacing);
+			break;
+		}
+	}
+	return hit;
+};
+
+// Cuts a drum hit short with a quick fade
+const stopDrumHit = (hit: DrumHit, time: number, fade: number) => {
+	hit.output.gain.cancelScheduledValues(time);
+	hit.output.gain.setTargetAtTime(0, time, fade / 4);
+	hit.sources.forEach(node => {
+		try {
+			node.stop(time + fade);
+		} catch (e) {
+			// Ignore errors if node is already stopped
+		}
+	});
+};
+
+// Crossfade weight of one frame for a position signal (0-1 maps to the table, clamped outside)
+const createWavetableWeightCurve = (frameIndex: number, frameCount: number): Float32Array => {
+	const curve = new Float32Array(1025);
+	for (let i = 0; i < curve.length; i++) {
+		const position = Math.max(0, Math.min(1, (i / (curve.length - 1)) * 2 - 1));
+		curve[i] = frameCount > 1
+			? Math.max(0, 1 - Math.abs(position * (frameCount - 1) - frameIndex))
+			: 1;
+	}
+	return curve;
+};
+
 // --- Deterministic Noise Utils ---
 const PERM = new Uint8Array([151,160,137,91,90,15,
 131,13,201,95,96,53,194,233,7,225,140,36,103,30,69,142,8,99,37,240,21,10,23,
@@ -610,6 +1180,77 @@ const oscillatorTypes: readonly OscillatorType[] = [
 	"sawtooth",
 	"triangle",
 ];
+const synthOscillatorTypes: readonly SynthOscillatorType[] = [
+	...oscillatorTypes,
+	"wavetable",
+];
+const DEFAULT_SUB_OSCILLATOR: SubOscillatorState = {
+	enabled: false,
+	octave: 1,
+	shape: "square",
+	level: 0.5,
+};
+const DEFAULT_SYNC_OSCILLATOR: SyncOscillatorState = {
+	enabled: false,
+	ratio: 2,
+	shape: "sawtooth",
+	level: 0.5,
+};
+const engineLayerTypes: readonly EngineLayerType[] = ["synth", "noise", "sampler", "fm", "pluck", "drum"];
+const engineLayerLabels: Record<EngineLayerType, string> = {
+	synth: "Synth",
+	noise: "Noise",
+	sampler: "Sampler",
+	fm: "FM",
+	pluck: "Pluck",
+	drum: "Drum",
+};
+const pluckExciters: readonly PluckExciter[] = ["burst", "noise"];
+const pluckExciterLabels: Record<PluckExciter, string> = {
+	burst: "Burst",
+	noise: "Noise Layer",
+};
+const DEFAULT_PLUCK_LAYER: PluckLayerState = {
+	enabled: false,
+	volume: 0.7,
+	exciter: "burst",
+	damping: 0.4,
+	brightness: 0.7,
+	decay: 1.5,
+};
+const drumModels: readonly DrumModel[] = ["kick", "snare", "hat", "clap"];
+const drumModelLabels: Record<DrumModel, string> = {
+	kick: "Kick",
+	snare: "Snare",
+	hat: "Hat",
+	clap: "Clap",
+};
+const DEFAULT_DRUM_LAYER: DrumLayerState = {
+	enabled: false,
+	volume: 0.8,
+	model: "kick",
+	tone: 0.4,
+	decay: 0.4,
+	snap: 0.5,
+};
+const fmAlgorithms: readonly FMAlgorithm[] = ["stack", "branch"];
+const fmAlgorithmLabels: Record<FMAlgorithm, string> = {
+	stack: "Stack",
+	branch: "Branch",
+};
+const fmHarmonicRatios = [0.5, 1, 2, 3, 4, 5, 6, 7, 8];
+const DEFAULT_FM_LAYER: FMLayerState = {
+	enabled: false,
+	volume: 0.5,
+	algorithm: "stack",
+	operatorCount: 2,
+	operators: [
+		{ ratio: 1, index: 0, attack: 0.005, decay: 0.4, sustain: 0.7, release: 0.4 },
+		{ ratio: 2, index: 3, attack: 0.005, decay: 0.6, sustain: 0.2, release: 0.3 },
+		{ ratio: 3.5, index: 1.5, attack: 0.005, decay: 0.3, sustain: 0, release: 0.2 },
+		{ ratio: 7, index: 0.5, attack: 0.001, decay: 0.15, sustain: 0, release: 0.1 },
+	],
+};
 const lfoShapes: readonly LFO_Shape[] = [
 	"sine",
 	"square",
@@ -627,8 +1268,159 @@ const filterTypes: readonly FilterType[] = [
 	"bandpass",
 	"notch",
 ];
+const VOICE_FILTER_KEY_CENTER = 261.63; // Middle C, where key tracking leaves the cutoff alone
+const DEFAULT_VOICE_FILTER: VoiceFilterState = {
+	enabled: false,
+	type: "lowpass",
+	cutoff: 800,
+	resonance: 4,
+	keyTracking: 0.5,
+	envAmount: 3,
+	envelope: { attack: 0.005, decay: 0.25, sustain: 0.2, release: 0.3 },
+};
+const DEFAULT_PITCH_ENVELOPE: PitchEnvelopeState = {
+	amount: 0,
+	decay: 0.1,
+	curve: 0.5,
+};
+
+// Semitone offsets from the envelope amount down to 0, for setValueCurveAtTime
+const createPitchSweep = (envelope: PitchEnvelopeState): Float32Array => {
+	const points = 64;
+	const sweep = new Float32Array(points);
+	for (let i = 0; i < points; i++) {
+		sweep[i] = envelope.amount * Math.pow(1 - i / (points - 1), 1 + envelope.curve * 7);
+	}
+	return sweep;
+};
+const DEFAULT_MAX_VOICES = 16;
+const MAX_VOICES_LIMIT = 32;
+const VOICE_STEAL_FADE = 0.01; // Seconds
+const voiceStealPolicies: VoiceStealPolicy[] = ["oldest", "quietest", "lowest", "highest"];
+const voiceStealPolicyLabels: Record<VoiceStealPolicy, string> = {
+	oldest: "Oldest",
+	quietest: "Quietest",
+	lowest: "Lowest",
+	highest: "Highest",
+};
+
+// Follows the ramps noteOn and noteOff schedule. Reading envelopeGain.gain.value instead
+// would give the level at the main thread's current time, not at the steal time.
+const estimateVoiceLevel = (voice: ActiveVoice, adsr: ADSRState, time: number): number => {
+	const { attack, decay, sustain, release } = adsr;
+	const levelAt = (at: number) => {
+		const elapsed = at - voice.startTime;
+		if (elapsed <= 0) return 0;
+		if (elapsed < attack) return voice.peakLevel * (elapsed / attack);
+		const sustainLevel = sustain * voice.peakLevel;
+		return sustainLevel + (voice.peakLevel - sustainLevel) * Math.exp(-(elapsed - attack) / (decay / 3 + 0.001));
+	};
+	if (voice.releaseTime === undefined || time < voice.releaseTime) return levelAt(time);
+	return levelAt(voice.releaseTime) * Math.exp(-(time - voice.releaseTime) / (release / 5 + 0.001));
+};
+
+const pickVoiceToSteal = (voices: ActiveVoice[], policy: VoiceStealPolicy, adsr: ADSRState, now: number): ActiveVoice | undefined => {
+	// Voices already in their release tail always go first
+	const releasing = voices.filter(voice => voice.releaseTime !== undefined && voice.releaseTime <= now);
+	const candidates = releasing.length > 0 ? releasing : voices;
+	const score = (voice: ActiveVoice) => {
+		switch (policy) {
+			case "quietest":
+				return estimateVoiceLevel(voice, adsr, now);
+			case "lowest":
+				return voice.note;
+			case "highest":
+				return -voice.note;
+			default:
+				return voice.startTime;
+		}
+	};
+	return candidates.reduce<ActiveVoice | undefined>(
+		(best, voice) => (!best || score(voice) < score(best) ? voice : best),
+		undefined
+	);
+};
+const MAX_SCHEDULER_STEPS_PER_TICK = 1024; // Steps across all engines in one scheduler pass
 const lfoSyncRates = ["1/32", "1/24", "1/16", "1/12", "1/8", "1/8d", "1/6", "1/4", "1/4d", "1/3", "1/2", "1", "2/1", "4/1", "8/1"];
-const sequencerRates = ["1/32", "1/16", "1/8", "1/4"];
+// Suffixes: t = triplet, q = quintuplet, d = dotted
+const sequencerRates = [
+	"1/32",
+	"1/16t",
+	"1/16q",
+	"1/16",
+	"1/8t",
+	"1/16d",
+	"1/8q",
+	"1/8",
+	"1/4t",
+	"1/8d",
+	"1/4",
+	"1/4d",
+];
+const playbackDirections: readonly PlaybackDirection[] = [
+	"forward",
+	"reverse",
+	"pingpong",
+	"random",
+	"drunk",
+];
+const playbackDirectionLabels: Record<PlaybackDirection, string> = {
+	forward: "Forward",
+	reverse: "Reverse",
+	pingpong: "Ping-Pong",
+	random: "Random",
+	drunk: "Drunk",
+};
+const trigConditions: readonly TrigCondition[] = [
+	"always",
+	"1:2",
+	"2:2",
+	"1:3",
+	"2:3",
+	"3:3",
+	"1:4",
+	"2:4",
+	"3:4",
+	"4:4",
+	"first",
+	"!first",
+	"pre",
+	"!pre",
+	"fill",
+	"!fill",
+];
+const trigConditionLabels: Record<TrigCondition, string> = {
+	always: "Always",
+	"1:2": "1:2",
+	"2:2": "2:2",
+	"1:3": "1:3",
+	"2:3": "2:3",
+	"3:3": "3:3",
+	"1:4": "1:4",
+	"2:4": "2:4",
+	"3:4": "3:4",
+	"4:4": "4:4",
+	first: "First Loop",
+	"!first": "Not First",
+	pre: "Previous",
+	"!pre": "Not Previous",
+	fill: "Fill",
+	"!fill": "Not Fill",
+};
+const engineLinkActions: readonly EngineLinkAction[] = ["reset", "mute", "trigger"];
+const engineLinkActionLabels: Record<EngineLinkAction, string> = {
+	reset: "Reset",
+	mute: "Mute",
+	trigger: "Trigger",
+};
+const arpOrders: readonly ArpOrder[] = ["up", "down", "updown", "random", "played"];
+const arpOrderLabels: Record<ArpOrder, string> = {
+	up: "Up",
+	down: "Down",
+	updown: "Up-Down",
+	random: "Random",
+	played: "As Played",
+};
 const delaySyncRates = ["1/16", "1/8", "1/8d", "1/4", "1/4d", "1/2"];
 const noiseTypes: readonly NoiseType[] = ["white", "pink", "brown"];
 const distortionModes: readonly DistortionMode[] = [
@@ -657,25 +1449,34 @@ const DEFAULT_LFO_ROUTING_STATE: LFORoutingState = {
 	filter2Resonance: false,
 	engine1Vol: false,
 	engine1SynthFreq: false,
+	engine1SynthDetune: false,
+	engine1SyncRatio: false,
 	engine1SamplerTranspose: false,
 	engine1GrainSize: false,
 	engine1GrainDensity: false,
 	engine1GrainPosition: false,
 	engine1GrainJitter: false,
+	engine1WavetablePosition: false,
 	engine2Vol: false,
 	engine2SynthFreq: false,
+	engine2SynthDetune: false,
+	engine2SyncRatio: false,
 	engine2SamplerTranspose: false,
 	engine2GrainSize: false,
 	engine2GrainDensity: false,
 	engine2GrainPosition: false,
 	engine2GrainJitter: false,
+	engine2WavetablePosition: false,
 	engine3Vol: false,
 	engine3SynthFreq: false,
+	engine3SynthDetune: false,
+	engine3SyncRatio: false,
 	engine3SamplerTranspose: false,
 	engine3GrainSize: false,
 	engine3GrainDensity: false,
 	engine3GrainPosition: false,
 	engine3GrainJitter: false,
+	engine3WavetablePosition: false,
 	engine1Rate: false,
 	engine2Rate: false,
 	engine3Rate: false,
@@ -693,6 +1494,9 @@ const getInitialState = () => {
 			sequencerPulses: 4,
 			sequencerRotate: 0,
 			sequencerRate: "1/16",
+			swing: 0,
+			playbackDirection: "forward" as PlaybackDirection,
+			arpeggiator: { ...DEFAULT_ARPEGGIATOR },
 			sequencerEnabled: true,
 			midiControlled: true,
 			synth: {
@@ -715,6 +1519,9 @@ const getInitialState = () => {
 				positionJitter: 0,
 				liveInputEnabled: false,
 			},
+			fm: { ...DEFAULT_FM_LAYER },
+			pluck: { ...DEFAULT_PLUCK_LAYER },
+			drum: { ...DEFAULT_DRUM_LAYER },
 			effects: { distortion: 0, delayTime: 0.5, delayFeedback: 0.3 },
 			routing: { ...DEFAULT_LFO_ROUTING_STATE },
 			adsr: { attack: 0.01, decay: 0.2, sustain: 0.8, release: 0.5 },
@@ -733,6 +1540,9 @@ const getInitialState = () => {
 			sequencerPulses: 3,
 			sequencerRotate: 0,
 			sequencerRate: "1/16",
+			swing: 0,
+			playbackDirection: "forward" as PlaybackDirection,
+			arpeggiator: { ...DEFAULT_ARPEGGIATOR },
 			sequencerEnabled: true,
 			midiControlled: true,
 			synth: {
@@ -755,6 +1565,9 @@ const getInitialState = () => {
 				positionJitter: 0,
 				liveInputEnabled: false,
 			},
+			fm: { ...DEFAULT_FM_LAYER },
+			pluck: { ...DEFAULT_PLUCK_LAYER },
+			drum: { ...DEFAULT_DRUM_LAYER },
 			effects: { distortion: 0, delayTime: 0.25, delayFeedback: 0.4 },
 			routing: { ...DEFAULT_LFO_ROUTING_STATE },
 			adsr: { attack: 0.02, decay: 0.3, sustain: 0.7, release: 0.8 },
@@ -773,6 +1586,9 @@ const getInitialState = () => {
 			sequencerPulses: 2,
 			sequencerRotate: 0,
 			sequencerRate: "1/16",
+			swing: 0,
+			playbackDirection: "forward" as PlaybackDirection,
+			arpeggiator: { ...DEFAULT_ARPEGGIATOR },
 			sequencerEnabled: true,
 			midiControlled: true,
 			synth: {
@@ -795,6 +1611,9 @@ const getInitialState = () => {
 				positionJitter: 0,
 				liveInputEnabled: false,
 			},
+			fm: { ...DEFAULT_FM_LAYER },
+			pluck: { ...DEFAULT_PLUCK_LAYER },
+			drum: { ...DEFAULT_DRUM_LAYER },
 			effects: { distortion: 0, delayTime: 0.75, delayFeedback: 0.2 },
 			routing: { ...DEFAULT_LFO_ROUTING_STATE },
 			adsr: { attack: 0.1, decay: 0.1, sustain: 0.9, release: 0.3 },
@@ -813,7 +1632,8 @@ const getInitialState = () => {
 			engine.sequencerPulses
 		);
 		const sequence = rotatePattern(pattern, engine.sequencerRotate);
-		return { ...engine, sequence };
+		const stepParams = createDefaultStepParams(engine.sequencerSteps);
+		return { ...engine, sequence, stepParams };
 	});
 
 	return {
@@ -934,10 +1754,14 @@ const getInitialLockState = (): LockState => {
 					sequencerPulses: false,
 					sequencerRotate: false,
 					sequencerRate: false,
+					playbackDirection: false,
+					automatonRule: false,
+					melodicSequence: false,
 					synth: {
 						enabled: false,
 						volume: true,
 						oscillatorType: false,
+						wavetablePosition: false,
 						solfeggioFrequency: false,
 						frequency: false,
 					},
@@ -957,6 +1781,28 @@ const getInitialLockState = (): LockState => {
 						positionJitter: false,
 						liveInputEnabled: false,
 					},
+					fm: {
+						enabled: false,
+						volume: true,
+						algorithm: false,
+						ratios: false,
+						indexes: false,
+					},
+					pluck: {
+						enabled: false,
+						volume: true,
+						damping: false,
+						brightness: false,
+						decay: false,
+					},
+					drum: {
+						enabled: false,
+						volume: true,
+						model: false,
+						tone: false,
+						decay: false,
+						snap: false,
+					},
 					adsr: { attack: true, decay: true, sustain: true, release: true },
 					effects: { distortion: false, delayTime: false, delayFeedback: false },
 				},
@@ -1261,13 +2107,366 @@ const generateEuclideanPattern = (steps: number, pulses: number): number[] => {
 	return pattern;
 };
 
-const rotatePattern = (pattern: number[], rotation: number): number[] => {
+const rotatePattern = <T,>(pattern: T[], rotation: number): T[] => {
 	const len = pattern.length;
 	if (len === 0) return [];
 	const offset = ((rotation % len) + len) % len;
 	return [...pattern.slice(len - offset), ...pattern.slice(0, len - offset)];
 };
 
+// Rules with neither static nor fully chaotic rows, used by the randomizer
+const automatonRules = [18, 22, 30, 45, 54, 60, 73, 90, 102, 105, 110, 126, 129, 137, 146, 150, 182, 225];
+
+const createAutomatonState = (steps: number): CellularAutomatonState => {
+	const seed = new Array(steps).fill(0);
+	seed[Math.floor(steps / 2)] = 1;
+	return { rule: 30, seed, generation: seed, generationCount: 0 };
+};
+
+const resizeAutomatonRow = (row: number[], steps: number): number[] =>
+	Array.from({ length: steps }, (_, i) => (row[i] ? 1 : 0));
+
+// Computes the next generation. The row wraps around, like the sequence ring.
+const stepCellularAutomaton = (row: number[], rule: number): number[] =>
+	row.map((cell, i) => {
+		const left = row[(i - 1 + row.length) % row.length] ? 1 : 0;
+		const right = row[(i + 1) % row.length] ? 1 : 0;
+		const neighbourhood = (left << 2) | ((cell ? 1 : 0) << 1) | right;
+		return (rule >> neighbourhood) & 1;
+	});
+
+// Restarts the automaton from its seed row
+const resetAutomaton = (engine: EngineState): EngineState => {
+	const automaton = engine.automaton ?? createAutomatonState(engine.sequencerSteps);
+	const seed = resizeAutomatonRow(automaton.seed, engine.sequencerSteps);
+	return {
+		...engine,
+		automaton: { ...automaton, seed, generation: seed, generationCount: 0 },
+		sequence: rotatePattern(seed, engine.sequencerRotate),
+	};
+};
+
+// Moves the automaton on one generation. A row that dies out restarts from the seed.
+const advanceAutomaton = (engine: EngineState): EngineState => {
+	const automaton = engine.automaton ?? createAutomatonState(engine.sequencerSteps);
+	const generation = stepCellularAutomaton(
+		resizeAutomatonRow(automaton.generation, engine.sequencerSteps),
+		automaton.rule
+	);
+	if (!generation.includes(1)) return resetAutomaton(engine);
+	return {
+		...engine,
+		automaton: { ...automaton, generation, generationCount: automaton.generationCount + 1 },
+		sequence: rotatePattern(generation, engine.sequencerRotate),
+	};
+};
+
+const TURING_MAX_LENGTH = 16;
+
+const createTuringState = (): TuringMachineState => ({
+	register: Math.floor(Math.random() * (1 << TURING_MAX_LENGTH)),
+	length: TURING_MAX_LENGTH,
+	lock: 0.8,
+});
+
+// Clocks a Turing-machine shift register once per step. The bit leaving the end
+// re-enters at the start, replaced by a random bit with probability 1 - lock.
+// Each step's register value (0-1) gates against the pulse density and picks a pitch.
+const generateTuringPattern = (
+	turing: TuringMachineState,
+	steps: number,
+	pulses: number
+): { sequence: number[]; values: number[]; register: number } => {
+	const length = Math.min(TURING_MAX_LENGTH, Math.max(2, Math.round(turing.length)));
+	const mask = (1 << length) - 1;
+	const valueMask = Math.min(0xff, mask);
+	const density = steps > 0 ? Math.min(1, pulses / steps) : 0;
+	let register = turing.register & mask;
+	const sequence: number[] = [];
+	const values: number[] = [];
+	for (let i = 0; i < steps; i++) {
+		const outgoing = (register >> (length - 1)) & 1;
+		const bit = Math.random() < 1 - turing.lock ? getRandomInt(0, 1) : outgoing;
+		register = ((register << 1) | bit) & mask;
+		const value = (register & valueMask) / valueMask;
+		values.push(value);
+		sequence.push(value < density ? 1 : 0);
+	}
+	// Undo the rotation from clocking a whole cycle, so the next cycle starts where
+	// this one did (plus any flipped bits) and a locked register repeats exactly
+	const shift = steps % length;
+	register = ((register >>> shift) | (register << (length - shift))) & mask;
+	return { sequence, values, register };
+};
+
+// Keeps the notes between C(baseOctave) and B(baseOctave + range - 1)
+const filterNotesToOctaveRange = (notes: number[], baseOctave: number, range: number): number[] => {
+	// C(octave) note number = (octave + 1) * 12
+	const minNote = (baseOctave + 1) * 12;
+	const maxNote = (baseOctave + 1 + range) * 12 - 1;
+	const minFreq = 440 * Math.pow(2, (minNote - 69) / 12);
+	const maxFreq = 440 * Math.pow(2, (maxNote - 69) / 12);
+	return notes.filter((f) => f >= minFreq && f <= maxFreq);
+};
+
+// Runs the engine's Turing machine through one pattern cycle. Pitches come from
+// the scale notes inside the engine's random octave range; without a scale or
+// with the melody locked the existing melody is kept.
+const applyTuringPattern = (engine: EngineState, scaleNotes: number[], isMelodyLocked: boolean): EngineState => {
+	const turing = engine.turing ?? createTuringState();
+	const { sequence, values, register } = generateTuringPattern(
+		turing,
+		engine.sequencerSteps,
+		engine.sequencerPulses
+	);
+	let pool = filterNotesToOctaveRange(scaleNotes, engine.randomBaseOctave || 3, engine.randomOctaveRange || 2);
+	if (pool.length === 0) pool = scaleNotes;
+	const turingEngine = {
+		...engine,
+		turing: { ...turing, register },
+		sequence: rotatePattern(sequence, engine.sequencerRotate),
+	};
+	if (isMelodyLocked || pool.length === 0) return turingEngine;
+	const melodicSequence = values.map((value) => [pool[Math.min(pool.length - 1, Math.floor(value * pool.length))]]);
+	return {
+		...turingEngine,
+		melodicSequence: rotatePattern(melodicSequence, engine.sequencerRotate),
+		useMelodicSequence: true,
+	};
+};
+
+const DEFAULT_STEP_PARAMS: SequencerStepParams = {
+	probability: 1,
+	condition: "always",
+	velocity: 1,
+	accent: false,
+	gate: 0.8,
+	ratchet: 1,
+	ratchetDecay: 0,
+	microTiming: 0,
+};
+
+const ACCENT_GAIN = 1.4; // Envelope peak multiplier for accented steps
+
+// Accents are capped at unity, the range of the velocity mod source
+const getStepVelocity = (params: SequencerStepParams) =>
+	params.accent ? Math.min(1, params.velocity * ACCENT_GAIN) : params.velocity;
+
+const getStepParams = (
+	engine: EngineState,
+	stepIndex: number
+): SequencerStepParams => ({
+	...DEFAULT_STEP_PARAMS,
+	...(engine.stepParams?.[stepIndex] || {}),
+});
+
+const createDefaultStepParams = (steps: number): SequencerStepParams[] =>
+	Array.from({ length: steps }, () => ({ ...DEFAULT_STEP_PARAMS }));
+
+// Resizes step params the same way melodicSequence is resized (wrapping)
+const resizeStepParams = (
+	params: SequencerStepParams[] | undefined,
+	steps: number
+): SequencerStepParams[] => {
+	if (!params || params.length === 0) return createDefaultStepParams(steps);
+	return Array.from({ length: steps }, (_, i) => ({
+		...DEFAULT_STEP_PARAMS,
+		...params[i % params.length],
+	}));
+};
+
+const PATTERN_SLOT_COUNT = 16;
+const BEATS_PER_BAR = 4;
+
+const rateModifiers: { [suffix: string]: number } = {
+	t: 2 / 3, // Triplet
+	q: 4 / 5, // Quintuplet
+	d: 1.5, // Dotted
+};
+
+// Parses rates like "1/16", "1/8t", "1/8d" or "1/16q" into beats (quarter notes)
+const getBeatsPerStep = (rate: string): number => {
+	const match = /^(\d+)\/(\d+)([tqd]?)$/.exec(rate.trim());
+	if (!match) return 0.25; // Fall back to 1/16
+	const [, numerator, denominator, suffix] = match;
+	const beats = (4 * parseInt(numerator)) / parseInt(denominator);
+	return suffix ? beats * rateModifiers[suffix] : beats;
+};
+
+// Includes the engine's free ratio, e.g. 5:4 plays five steps in the time of four
+const getEngineBeatsPerStep = (engine: EngineState): number => {
+	const [steps, against] = engine.rateRatio ?? [1, 1];
+	return getBeatsPerStep(engine.sequencerRate) * (against / Math.max(1, steps));
+};
+
+// How far before its grid time a step can play, so the scheduler reaches it in time
+const getEngineEarlyWindow = (engine: EngineState, bpm: number): number => {
+	const earliestNudge = Math.min(0, ...(engine.stepParams ?? []).map((params) => params?.microTiming ?? 0));
+	return earliestNudge < 0 ? -earliestNudge * (60 / bpm) * getEngineBeatsPerStep(engine) : 0;
+};
+
+// Fresh sequencer position, used on start, panic and MIDI Start
+const createEngineSchedulerState = (nextNoteTime: number, currentStep: number = 0): EngineSchedulerState => ({
+	nextNoteTime,
+	currentStep,
+	loopCount: 0,
+	lastConditionResult: false,
+	isTieHeld: false,
+	heldNoteIds: [],
+	heldFreqs: [],
+	isMovingForward: true,
+	stepsPlayed: 0,
+	beatPosition: 0,
+	currentBar: -1,
+	chainIndex: -1,
+	chainBarCount: 0,
+	queuedPatternIndex: null,
+	midiClockPulses: 0,
+	recentSteps: [],
+	isCycleStart: false,
+	pendingResetTime: null,
+	linkMuteWindows: [],
+});
+
+const capturePattern = (engine: EngineState): SequencerPattern => ({
+	sequencerSteps: engine.sequencerSteps,
+	sequencerPulses: engine.sequencerPulses,
+	sequencerRotate: engine.sequencerRotate,
+	sequence: [...engine.sequence],
+	melodicSequence: engine.melodicSequence.map((freqs) => [...freqs]),
+	stepParams: engine.stepParams?.map((params) => ({ ...params })),
+});
+
+// Stores the active pattern in its slot and loads another one.
+// An empty slot starts as a copy of the pattern being left.
+const switchEnginePattern = (engine: EngineState, index: number): EngineState => {
+	const currentIndex = engine.activePatternIndex ?? 0;
+	if (index === currentIndex) return engine;
+	const patterns = Array.from(
+		{ length: PATTERN_SLOT_COUNT },
+		(_, i) => engine.patterns?.[i] ?? null
+	);
+	const current = capturePattern(engine);
+	patterns[currentIndex] = current;
+	const target = patterns[index] ?? current;
+	patterns[index] = target;
+	return {
+		...engine,
+		...target,
+		sequence: [...target.sequence],
+		melodicSequence: target.melodicSequence.map((freqs) => [...freqs]),
+		stepParams: resizeStepParams(target.stepParams, target.sequencerSteps),
+		patterns,
+		activePatternIndex: index,
+	};
+};
+
+// Picks the step after currentStep for a playback direction.
+// currentStep is -1 before the first step has been played.
+const getNextSequencerStep = (
+	direction: PlaybackDirection,
+	currentStep: number,
+	steps: number,
+	isMovingForward: boolean,
+	stepsPlayed: number
+): { step: number; isMovingForward: boolean; completedLoop: boolean } => {
+	if (currentStep < 0) {
+		return {
+			step: direction === "reverse" ? steps - 1 : 0,
+			isMovingForward: true,
+			completedLoop: false,
+		};
+	}
+	const current = currentStep % steps;
+	switch (direction) {
+		case "reverse": {
+			const step = (current - 1 + steps) % steps;
+			return { step, isMovingForward: false, completedLoop: step === steps - 1 };
+		}
+		case "pingpong": {
+			// Bounce at both ends without repeating the end steps
+			let forward = isMovingForward;
+			if (forward && current >= steps - 1) forward = false;
+			else if (!forward && current <= 0) forward = true;
+			const step = Math.min(steps - 1, Math.max(0, current + (forward ? 1 : -1)));
+			return { step, isMovingForward: forward, completedLoop: step === 0 };
+		}
+		case "random":
+			return {
+				step: getRandomInt(0, steps - 1),
+				isMovingForward,
+				completedLoop: stepsPlayed % steps === 0,
+			};
+		case "drunk": {
+			const step = (current + (getRandomBool() ? 1 : -1) + steps) % steps;
+			return { step, isMovingForward, completedLoop: stepsPlayed % steps === 0 };
+		}
+		default: {
+			const step = (current + 1) % steps;
+			return { step, isMovingForward: true, completedLoop: step === 0 };
+		}
+	}
+};
+
+// loopIndex is 0 on the first pass through the pattern
+const evaluateTrigCondition = (
+	condition: TrigCondition,
+	loopIndex: number,
+	previousResult: boolean,
+	isFillActive: boolean
+): boolean => {
+	switch (condition) {
+		case "always":
+			return true;
+		case "first":
+			return loopIndex === 0;
+		case "!first":
+			return loopIndex !== 0;
+		case "pre":
+			return previousResult;
+		case "!pre":
+			return !previousResult;
+		case "fill":
+			return isFillActive;
+		case "!fill":
+			return !isFillActive;
+		default: {
+			const [position, length] = condition.split(":").map(Number);
+			return loopIndex % length === position - 1;
+		}
+	}
+};
+
+const DEFAULT_ARPEGGIATOR: ArpeggiatorState = {
+	enabled: false,
+	order: "up",
+	octaves: 1,
+	rate: "1/16",
+	gate: 0.5,
+	latch: false,
+};
+
+// Expands held notes over the octave range in the order the arp walks them.
+// "random" returns the full pool and is picked from at play time.
+const buildArpSequence = (heldNotes: number[], order: ArpOrder, octaves: number): number[] => {
+	const base = order === "played" ? heldNotes : [...heldNotes].sort((a, b) => a - b);
+	const expanded: number[] = [];
+	for (let octave = 0; octave < octaves; octave++) {
+		base.forEach((note) => expanded.push(note + octave * 12));
+	}
+	switch (order) {
+		case "down":
+			return expanded.reverse();
+		case "updown":
+			// Don't repeat the top and bottom notes at the turnarounds
+			return expanded.length > 2
+				? [...expanded, ...expanded.slice(1, -1).reverse()]
+				: expanded;
+		default:
+			return expanded;
+	}
+};
+
 const getRandom = (min: number, max: number) =>
 	Math.random() * (max - min) + min;
 const getRandomInt = (min: number, max: number) =>
@@ -1394,30 +2593,270 @@ const getNoteFromScale = (
 	return rootFreq * ratio * Math.pow(2, octave);
 };
 
-function makeDistortionCurve(
-	amount: number,
-	mode: DistortionMode,
-	n_samples = 44100
-) {
-	const k = amount * 100;
-	const deg = Math.PI / 180;
-	const curve = new Float32Array(n_samples);
-	let x;
-	for (let i = 0; i < n_samples; ++i) {
-		x = (i * 2) / n_samples - 1;
-		switch (mode) {
-			case "overdrive":
-				curve[i] = ((1 + k) * x) / (1 + k * Math.abs(x));
-				break;
-			case "soft clip":
-				curve[i] = Math.tanh(x * (k / 10 + 1));
-				break;
-			case "hard clip":
-				curve[i] = Math.max(-1, Math.min(1, x * (k / 10 + 1)));
-				break;
-			case "foldback":
-				curve[i] = Math.abs(x) > 0.5 ? Math.sin(x * Math.PI * (k / 20 + 1)) : x;
-				break;
+// --- Markov Melody ---
+// First-order chain over the intervals between consecutive notes
+interface MarkovTable {
+	transitions: Map<number, Map<number, number>>; // Previous interval -> next interval counts
+	intervals: Map<number, number>; // Overall interval counts, used for moves never seen before
+}
+
+const DEFAULT_MARKOV: MarkovSettings = {
+	useForRandomize: false,
+	temperature: 1,
+	phrase: "",
+};
+
+// Parses phrases like "C4 E4 G4 Bb3 64" into MIDI note numbers
+const parseNotePhrase = (text: string): number[] =>
+	text
+		.split(/[\s,]+/)
+		.filter(Boolean)
+		.map((token) => {
+			if (/^\d+$/.test(token)) return parseInt(token);
+			const match = token.match(/^([A-Ga-g])([#b]?)(-?\d)$/);
+			if (!match) return NaN;
+			const accidental = match[2] === "#" ? 1 : match[2] === "b" ? -1 : 0;
+			return (parseInt(match[3]) + 1) * 12 + noteNames.indexOf(match[1].toUpperCase()) + accidental;
+		})
+		.filter((note) => note >= 0 && note <= 127);
+
+// The phrase is treated as a loop, like a sequence
+const buildMarkovTable = (notes: number[]): MarkovTable => {
+	const table: MarkovTable = { transitions: new Map(), intervals: new Map() };
+	const intervals = notes.map((note, i) => Math.round(notes[(i + 1) % notes.length] - note));
+	intervals.forEach((interval, i) => {
+		const next = intervals[(i + 1) % intervals.length];
+		table.intervals.set(interval, (table.intervals.get(interval) ?? 0) + 1);
+		const row = table.transitions.get(interval) ?? new Map<number, number>();
+		row.set(next, (row.get(next) ?? 0) + 1);
+		table.transitions.set(interval, row);
+	});
+	return table;
+};
+
+// Temperature reshapes the counts: below 1 sharpens them, above 1 evens them out
+const sampleMarkovRow = (counts: Map<number, number>, temperature: number): number => {
+	const entries = Array.from(counts.entries());
+	const weights = entries.map(([, count]) => Math.pow(count, 1 / Math.max(0.05, temperature)));
+	let roll = Math.random() * weights.reduce((sum, w) => sum + w, 0);
+	for (let i = 0; i < entries.length; i++) {
+		roll -= weights[i];
+		if (roll <= 0) return entries[i][0];
+	}
+	return entries[entries.length - 1][0];
+};
+
+// Notes leaving [minNote, maxNote] are folded back by octaves so the contour survives
+const generateMarkovPhrase = (
+	table: MarkovTable,
+	startNote: number,
+	length: number,
+	temperature: number,
+	minNote: number,
+	maxNote: number
+): number[] => {
+	const fold = (note: number) => {
+		if (note > maxNote) note = maxNote - (((maxNote - note) % 12) + 12) % 12;
+		if (note < minNote) note = minNote + (((note - minNote) % 12) + 12) % 12;
+		// Ranges narrower than an octave can still fold past the other end
+		return Math.max(minNote, Math.min(maxNote, note));
+	};
+	const notes: number[] = [];
+	let note = fold(startNote);
+	let previous = sampleMarkovRow(table.intervals, temperature);
+	for (let i = 0; i < length; i++) {
+		notes.push(note);
+		const interval = sampleMarkovRow(table.transitions.get(previous) ?? table.intervals, temperature);
+		note = fold(note + interval);
+		previous = interval;
+	}
+	return notes;
+};
+
+// Builds a new melody from the engine's Markov source, snapped to the scale notes
+// inside its random octave range. Returns null when there is nothing to learn from.
+const generateMarkovMelody = (
+	engine: EngineState,
+	scaleNotes: number[],
+	tuning: TuningSystem
+): number[][] | null => {
+	const markov = engine.markov ?? DEFAULT_MARKOV;
+	const sourceNotes = markov.phrase.trim()
+		? parseNotePhrase(markov.phrase)
+		: engine.melodicSequence
+				.filter((freqs) => freqs.length > 0)
+				.map((freqs) => frequencyToMidiNote(Math.min(...freqs)));
+	if (sourceNotes.length < 2) return null;
+
+	const baseOctave = engine.randomBaseOctave || 3;
+	const range = engine.randomOctaveRange || 2;
+	const minNote = (baseOctave + 1) * 12;
+	const phrase = generateMarkovPhrase(
+		buildMarkovTable(sourceNotes),
+		Math.round(sourceNotes[0]),
+		engine.sequencerSteps,
+		markov.temperature,
+		minNote,
+		minNote + range * 12 - 1
+	);
+
+	let pool = filterNotesToOctaveRange(scaleNotes, baseOctave, range);
+	if (pool.length === 0) pool = scaleNotes;
+	return phrase.map((note) => {
+		if (pool.length === 0) return [midiNoteToFrequency(note, tuning)];
+		const nearest = pool.reduce((best, freq) =>
+			Math.abs(frequencyToMidiNote(freq) - note) < Math.abs(frequencyToMidiNote(best) - note)
+				? freq
+				: best
+		);
+		return [nearest];
+	});
+};
+
+// --- Chord Track ---
+const DEFAULT_CHORD_TRACK: ChordTrackState = {
+	enabled: false,
+	mode: "transpose",
+	followMidi: false,
+	chords: [
+		{ degree: 0, seventh: false, bars: 1 },
+		{ degree: 5, seventh: false, bars: 1 },
+		{ degree: 3, seventh: false, bars: 1 },
+		{ degree: 4, seventh: false, bars: 1 },
+	],
+};
+
+const romanNumerals = ["I", "II", "III", "IV", "V", "VI", "VII"];
+
+const getScaleSteps = (scale: ScaleName): number[] =>
+	musicalScales[scale] || musicalScales.chromatic;
+
+// Chord tones as pitch classes above the key root, stacked in thirds from the scale
+const getChordTones = (scaleSteps: number[], chord: ChordStep): number[] =>
+	(chord.seventh ? [0, 2, 4, 6] : [0, 2, 4]).map(
+		(k) => scaleSteps[(chord.degree + k) % scaleSteps.length]
+	);
+
+const getChordLabel = (scaleSteps: number[], chord: ChordStep): string => {
+	const [root, third, fifth] = getChordTones(scaleSteps, chord);
+	// Roman numerals only make sense for seven-note scales
+	let label = scaleSteps.length === 7 ? romanNumerals[chord.degree % 7] : `${chord.degree + 1}`;
+	if ((third - root + 12) % 12 === 3) label = label.toLowerCase();
+	if ((fifth - root + 12) % 12 === 6) label += "°";
+	return chord.seventh ? `${label}7` : label;
+};
+
+// Which chord plays at a beat position; the progression loops
+const getChordIndexAtBeat = (chords: ChordStep[], beat: number): number => {
+	const totalBars = chords.reduce((sum, chord) => sum + Math.max(1, chord.bars), 0);
+	if (totalBars === 0) return -1;
+	let bar = Math.floor(beat / BEATS_PER_BAR + 1e-6) % totalBars;
+	for (let i = 0; i < chords.length; i++) {
+		bar -= Math.max(1, chords[i].bars);
+		if (bar < 0) return i;
+	}
+	return 0;
+};
+
+// "transpose" moves a note diatonically by the chord's degree; "snap" pulls it to the
+// nearest chord tone. keyRoot is the key's pitch class (the global transpose).
+const harmonizeMidiNote = (
+	note: number,
+	chord: ChordStep,
+	mode: ChordTrackMode,
+	scaleSteps: number[],
+	keyRoot: number
+): number => {
+	const rounded = Math.round(note);
+	if (mode === "snap") {
+		const tones = getChordTones(scaleSteps, chord);
+		for (let distance = 0; distance <= 6; distance++) {
+			for (const candidate of [rounded - distance, rounded + distance]) {
+				if (tones.includes((((candidate - keyRoot) % 12) + 12) % 12)) return candidate;
+			}
+		}
+		return rounded;
+	}
+	const relative = rounded - keyRoot;
+	const octave = Math.floor(relative / 12);
+	const pitchClass = relative - octave * 12;
+	let index = 0;
+	scaleSteps.forEach((step, i) => {
+		if (Math.abs(step - pitchClass) < Math.abs(scaleSteps[index] - pitchClass)) index = i;
+	});
+	// Notes outside the scale keep their chromatic offset
+	const offset = pitchClass - scaleSteps[index];
+	const target = index + chord.degree;
+	return (
+		keyRoot +
+		(octave + Math.floor(target / scaleSteps.length)) * 12 +
+		scaleSteps[target % scaleSteps.length] +
+		offset
+	);
+};
+
+// Note whose pitch in the tuning is closest to freq. Some tables give several notes
+// the same pitch, so the 12-TET estimate breaks ties.
+const frequencyToTuningNote = (freq: number, tuning: TuningSystem): number => {
+	const estimate = Math.round(frequencyToMidiNote(freq));
+	let best = estimate;
+	let bestDistance = Infinity;
+	for (let note = 0; note <= 127; note++) {
+		const distance = Math.abs(Math.log2(midiNoteToFrequency(note, tuning) / freq));
+		const isTie = Math.abs(distance - bestDistance) < 1e-9;
+		if ((!isTie && distance < bestDistance) || (isTie && Math.abs(note - estimate) < Math.abs(best - estimate))) {
+			best = note;
+			bestDistance = distance;
+		}
+	}
+	return best;
+};
+
+const harmonizeFrequency = (
+	freq: number,
+	chord: ChordStep,
+	mode: ChordTrackMode,
+	scale: ScaleName,
+	transpose: number,
+	tuning: TuningSystem
+): number => {
+	// Free tuning shifts by ratio
+	if (tuning === "none") {
+		const note = frequencyToMidiNote(freq);
+		const shift = harmonizeMidiNote(note, chord, mode, getScaleSteps(scale), transpose) - Math.round(note);
+		return freq * Math.pow(2, shift / 12);
+	}
+	// The other systems move between notes of their own table, keeping any offset from it
+	const note = frequencyToTuningNote(freq, tuning);
+	const target = harmonizeMidiNote(note, chord, mode, getScaleSteps(scale), transpose);
+	if (target === note) return freq;
+	return midiNoteToFrequency(target, tuning) * (freq / midiNoteToFrequency(note, tuning));
+};
+
+function makeDistortionCurve(
+	amount: number,
+	mode: DistortionMode,
+	n_samples = 44100
+) {
+	const k = amount * 100;
+	const deg = Math.PI / 180;
+	const curve = new Float32Array(n_samples);
+	let x;
+	for (let i = 0; i < n_samples; ++i) {
+		x = (i * 2) / n_samples - 1;
+		switch (mode) {
+			case "overdrive":
+				curve[i] = ((1 + k) * x) / (1 + k * Math.abs(x));
+				break;
+			case "soft clip":
+				curve[i] = Math.tanh(x * (k / 10 + 1));
+				break;
+			case "hard clip":
+				curve[i] = Math.max(-1, Math.min(1, x * (k / 10 + 1)));
+				break;
+			case "foldback":
+				curve[i] = Math.abs(x) > 0.5 ? Math.sin(x * Math.PI * (k / 20 + 1)) : x;
+				break;
 		}
 	}
 	return curve;
@@ -1524,11 +2963,258 @@ const frequencyToNoteName = (freq: number): string => {
 	return `${noteNames[noteIndex]}${octave}`;
 };
 
+interface SequencerStepEditorProps {
+	engine: EngineState;
+	stepIndex: number;
+	onUpdateStep: (
+		engineId: string,
+		stepIndex: number,
+		updates: Partial<SequencerStepParams>
+	) => void;
+	onUpdateRhythm: (engineId: string, newSequence: number[]) => void;
+	onClose: () => void;
+}
+
+const SequencerStepEditor: React.FC<SequencerStepEditorProps> = ({
+	engine,
+	stepIndex,
+	onUpdateStep,
+	onUpdateRhythm,
+	onClose,
+}) => {
+	const params = getStepParams(engine, stepIndex);
+	const stepValue = engine.sequence[stepIndex] || 0;
+
+	const setStepValue = (value: number) => {
+		const newRhythm = [...engine.sequence];
+		newRhythm[stepIndex] = value;
+		onUpdateRhythm(engine.id, newRhythm);
+	};
+
+	return (
+		<div className="step-editor">
+			<div className="step-editor-header">
+				<h4>Step {stepIndex + 1}</h4>
+				<button className="small" onClick={onClose} title="Close Step Editor">
+					×
+				</button>
+			</div>
+			<div className="control-row">
+				<label>Type</label>
+				<div className="toggle-group compact">
+					{["Off", "On", "Tie"].map((label, value) => (
+						<button
+							key={label}
+							className={stepValue === value ? "active" : ""}
+							onClick={() => setStepValue(value)}
+							title={value === 2 ? "Hold the previous note through this step" : undefined}
+						>
+							{label}
+						</button>
+					))}
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Probability</label>
+				<div className="control-value-wrapper">
+					<input
+						type="range"
+						min="0"
+						max="1"
+						step="0.01"
+						value={params.probability}
+						onChange={(e) =>
+							onUpdateStep(engine.id, stepIndex, {
+								probability: parseFloat(e.target.value),
+							})
+						}
+					/>
+					<span>{Math.round(params.probability * 100)}%</span>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Condition</label>
+				<select
+					value={params.condition}
+					onChange={(e) =>
+						onUpdateStep(engine.id, stepIndex, {
+							condition: e.target.value as TrigCondition,
+						})
+					}
+				>
+					{trigConditions.map((c) => (
+						<option key={c} value={c}>
+							{trigConditionLabels[c]}
+						</option>
+					))}
+				</select>
+			</div>
+			<div className="control-row">
+				<label>Velocity</label>
+				<div className="control-value-wrapper">
+					<input
+						type="range"
+						min="0"
+						max="1"
+						step="0.01"
+						value={params.velocity}
+						onChange={(e) =>
+							onUpdateStep(engine.id, stepIndex, {
+								velocity: parseFloat(e.target.value),
+							})
+						}
+					/>
+					<span>{Math.round(params.velocity * 127)}</span>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Gate</label>
+				<div className="control-value-wrapper">
+					<input
+						type="range"
+						min="0.05"
+						max="1"
+						step="0.01"
+						value={params.gate}
+						onChange={(e) =>
+							onUpdateStep(engine.id, stepIndex, {
+								gate: parseFloat(e.target.value),
+							})
+						}
+					/>
+					<span>{Math.round(params.gate * 100)}%</span>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Nudge</label>
+				<div className="control-value-wrapper">
+					<input
+						type="range"
+						min="-0.5"
+						max="0.5"
+						step="0.01"
+						value={params.microTiming}
+						onChange={(e) =>
+							onUpdateStep(engine.id, stepIndex, {
+								microTiming: parseFloat(e.target.value),
+							})
+						}
+						onDoubleClick={() => onUpdateStep(engine.id, stepIndex, { microTiming: 0 })}
+					/>
+					<span>{params.microTiming > 0 ? "+" : ""}{Math.round(params.microTiming * 100)}%</span>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Ratchet</label>
+				<div className="control-value-wrapper">
+					<input
+						type="range"
+						min="1"
+						max="8"
+						step="1"
+						value={params.ratchet}
+						onChange={(e) =>
+							onUpdateStep(engine.id, stepIndex, {
+								ratchet: parseInt(e.target.value),
+							})
+						}
+					/>
+					<span>{params.ratchet > 1 ? `x${params.ratchet}` : "Off"}</span>
+				</div>
+			</div>
+			{params.ratchet > 1 && (
+				<div className="control-row">
+					<label>Rat. Decay</label>
+					<div className="control-value-wrapper">
+						<input
+							type="range"
+							min="0"
+							max="1"
+							step="0.01"
+							value={params.ratchetDecay}
+							onChange={(e) =>
+								onUpdateStep(engine.id, stepIndex, {
+									ratchetDecay: parseFloat(e.target.value),
+								})
+							}
+						/>
+						<span>{Math.round(params.ratchetDecay * 100)}%</span>
+					</div>
+				</div>
+			)}
+			<div className="control-row">
+				<label>Accent</label>
+				<div className="toggle-group">
+					<button
+						className={params.accent ? "active" : ""}
+						onClick={() =>
+							onUpdateStep(engine.id, stepIndex, { accent: !params.accent })
+						}
+					>
+						{params.accent ? "ON" : "OFF"}
+					</button>
+				</div>
+			</div>
+			{engine.drum?.enabled && (
+				<>
+					<div className="control-row">
+						<label>Drum</label>
+						<select
+							value={params.drumModel ?? ""}
+							onChange={(e) =>
+								onUpdateStep(engine.id, stepIndex, {
+									drumModel: (e.target.value || undefined) as DrumModel | undefined,
+								})
+							}
+						>
+							<option value="">Layer ({drumModelLabels[engine.drum.model]})</option>
+							{drumModels.map((model) => (
+								<option key={model} value={model}>
+									{drumModelLabels[model]}
+								</option>
+							))}
+						</select>
+					</div>
+					{(["drumTone", "drumDecay"] as const).map((key) => (
+						<div className="control-row" key={key}>
+							<label>{key === "drumTone" ? "Drum Tone" : "Drum Decay"}</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={params[key] ?? engine.drum![key === "drumTone" ? "tone" : "decay"]}
+									onChange={(e) =>
+										onUpdateStep(engine.id, stepIndex, { [key]: parseFloat(e.target.value) })
+									}
+									onDoubleClick={() => onUpdateStep(engine.id, stepIndex, { [key]: undefined })}
+									title="Double-click to follow the layer"
+								/>
+								<span>{params[key] === undefined ? "Layer" : `${Math.round(params[key]! * 100)}%`}</span>
+							</div>
+						</div>
+					))}
+				</>
+			)}
+		</div>
+	);
+};
+
 interface MelodyEditorProps {
 	engine: EngineState;
 	scaleFrequencies: { value: number; label: string }[];
 	onUpdateSequence: (engineId: string, newSequence: number[][]) => void;
 	onUpdateRhythm: (engineId: string, newSequence: number[]) => void;
+	onUpdateStep: (
+		engineId: string,
+		stepIndex: number,
+		updates: Partial<SequencerStepParams>
+	) => void;
+	onUpdateEngine: (engineId: string, updates: Partial<EngineState>) => void;
+	onGenerateMarkov: (engineId: string) => void;
+	isMelodyLocked: boolean;
+	onToggleMelodyLock: () => void;
 	onClose: () => void;
 	currentStep: number;
 }
@@ -1538,9 +3224,19 @@ const MelodyEditor: React.FC<MelodyEditorProps> = ({
 	scaleFrequencies,
 	onUpdateSequence,
 	onUpdateRhythm,
+	onUpdateStep,
+	onUpdateEngine,
+	onGenerateMarkov,
+	isMelodyLocked,
+	onToggleMelodyLock,
 	onClose,
 	currentStep,
 }) => {
+	const [selectedStep, setSelectedStep] = useState<number | null>(null);
+	const markov = engine.markov ?? DEFAULT_MARKOV;
+	const updateMarkov = (updates: Partial<MarkovSettings>) =>
+		onUpdateEngine(engine.id, { markov: { ...markov, ...updates } });
+
 	const handleCellClick = (stepIndex: number, freqIndex: number) => {
 		const targetFreq = scaleFrequencies[freqIndex].value;
 		const currentStepFreqs = engine.melodicSequence[stepIndex] || [];
@@ -1558,8 +3254,11 @@ const MelodyEditor: React.FC<MelodyEditorProps> = ({
 		onUpdateSequence(engine.id, newMelody);
 
 		// Update rhythm based on whether any notes are active
+		// Tied steps stay tied; their notes become the legato glide target
 		const newRhythm = [...engine.sequence];
-		newRhythm[stepIndex] = newStepFreqs.length > 0 ? 1 : 0;
+		if (newRhythm[stepIndex] !== 2) {
+			newRhythm[stepIndex] = newStepFreqs.length > 0 ? 1 : 0;
+		}
 		onUpdateRhythm(engine.id, newRhythm);
 	};
 
@@ -1601,11 +3300,46 @@ const MelodyEditor: React.FC<MelodyEditorProps> = ({
 				<div className="melody-editor-header">
 					<h3>Melody Editor - {engine.id.toUpperCase()}</h3>
 					<div className="melody-editor-controls">
-						<button onClick={handleRandomize}>Randomize</button>
+						<button onClick={handleRandomize} disabled={isMelodyLocked}>Randomize</button>
 						<button onClick={handleClear}>Clear</button>
+						<LockIcon
+							isLocked={isMelodyLocked}
+							onClick={onToggleMelodyLock}
+							title="Lock Melody (randomizers and generators leave it alone)"
+						/>
 						<button onClick={onClose}>Close</button>
 					</div>
 				</div>
+				<div className="melody-editor-markov">
+					<label>Markov</label>
+					<input
+						type="text"
+						value={markov.phrase}
+						onChange={(e) => updateMarkov({ phrase: e.target.value })}
+						placeholder="Phrase to learn, e.g. C4 E4 G4 B3 (empty = this melody)"
+					/>
+					<label>Temp</label>
+					<input
+						type="range"
+						min="0.1"
+						max="2"
+						step="0.05"
+						value={markov.temperature}
+						onChange={(e) => updateMarkov({ temperature: parseFloat(e.target.value) })}
+						title="Low follows the most common moves, high evens them out"
+					/>
+					<span>{markov.temperature.toFixed(2)}</span>
+					<button onClick={() => onGenerateMarkov(engine.id)} disabled={isMelodyLocked}>
+						Generate
+					</button>
+					<button
+						className={markov.useForRandomize ? "active" : ""}
+						onClick={() => updateMarkov({ useForRandomize: !markov.useForRandomize })}
+						title="Use this chain for the Melodic randomizer"
+					>
+						Use for Melodic
+					</button>
+				</div>
 				<div className="melody-editor-body">
 					<div className="melody-grid-labels">
 						{scaleFrequencies
@@ -1616,6 +3350,7 @@ const MelodyEditor: React.FC<MelodyEditorProps> = ({
 									{f.label}
 								</div>
 							))}
+						<div className="grid-label step-lane-label">Trig</div>
 					</div>
 					<div className="melody-grid-container">
 						<div className="piano-roll-grid">
@@ -1631,9 +3366,9 @@ const MelodyEditor: React.FC<MelodyEditorProps> = ({
 											className="piano-roll-row"
 										>
 											{engine.melodicSequence.map((stepFreqs, stepIndex) => {
-												const isActive =
-													engine.sequence[stepIndex] === 1 &&
-													stepFreqs.some(f => Math.abs(f - sf.value) < 0.1);
+												const hasNote = stepFreqs.some(f => Math.abs(f - sf.value) < 0.1);
+												const isActive = engine.sequence[stepIndex] === 1 && hasNote;
+												const isTied = engine.sequence[stepIndex] === 2 && hasNote;
 												const isCurrentStep = stepIndex === currentStep;
 
 												return (
@@ -1641,7 +3376,7 @@ const MelodyEditor: React.FC<MelodyEditorProps> = ({
 														key={stepIndex}
 														className={`piano-roll-cell ${
 															isActive ? "active" : ""
-														} ${isCurrentStep ? "current" : ""}`}
+														} ${isTied ? "tied" : ""} ${isCurrentStep ? "current" : ""}`}
 														onClick={() =>
 															handleCellClick(stepIndex, freqIndex)
 														}
@@ -1652,9 +3387,54 @@ const MelodyEditor: React.FC<MelodyEditorProps> = ({
 										</div>
 									);
 								})}
+							<div className="piano-roll-row step-lane-row">
+								{engine.melodicSequence.map((_, stepIndex) => {
+									const { probability, condition, velocity, accent, ratchet } = getStepParams(engine, stepIndex);
+									return (
+										<div
+											key={stepIndex}
+											className={`step-lane-cell ${
+												selectedStep === stepIndex ? "selected" : ""
+											} ${condition !== "always" ? "conditional" : ""} ${
+												accent ? "accent" : ""
+											}`}
+											onClick={() =>
+												setSelectedStep(selectedStep === stepIndex ? null : stepIndex)
+											}
+											title={`Step ${stepIndex + 1}: ${Math.round(probability * 100)}% - ${trigConditionLabels[condition]} - Vel ${Math.round(velocity * 127)}${accent ? " (Accent)" : ""}`}
+										>
+											{engine.sequence[stepIndex] === 2 && (
+												<div className="step-lane-tie" title="Tie" />
+											)}
+											<div
+												className="step-lane-velocity"
+												style={{ height: `${velocity * 100}%` }}
+											/>
+											<span>
+												{condition !== "always"
+													? condition
+													: ratchet > 1
+													? `x${ratchet}`
+													: probability < 1
+													? `${Math.round(probability * 100)}`
+													: ""}
+											</span>
+										</div>
+									);
+								})}
+							</div>
 						</div>
 					</div>
 				</div>
+				{selectedStep !== null && selectedStep < engine.sequencerSteps && (
+					<SequencerStepEditor
+						engine={engine}
+						stepIndex={selectedStep}
+						onUpdateStep={onUpdateStep}
+						onUpdateRhythm={onUpdateRhythm}
+						onClose={() => setSelectedStep(null)}
+					/>
+				)}
 			</div>
 		</div>
 	);
@@ -1751,6 +3531,10 @@ const CircularVisualizerSequencer: React.FC<
 	currentStep,
 	isTransportPlaying,
 	sequence,
+	stepParams,
+	selectedStep,
+	onStepClick,
+	automatonGeneration,
 }) => {
 	const canvasRef = useRef<HTMLCanvasElement>(null);
 	const pattern = useMemo(
@@ -1790,23 +3574,64 @@ const CircularVisualizerSequencer: React.FC<
 				const angle = (i / steps) * 2 * Math.PI - Math.PI / 2;
 				const x = centerX + radius * Math.cos(angle);
 				const y = centerY + radius * Math.sin(angle);
+				const params = stepParams?.[i];
+				if (pattern[i] === 2) {
+					// Tied step: join it to the previous step along the ring
+					const prevAngle = ((i - 1) / steps) * 2 * Math.PI - Math.PI / 2;
+					ctx.beginPath();
+					ctx.strokeStyle = "#00f5d4";
+					ctx.lineWidth = 3;
+					ctx.arc(centerX, centerY, radius, prevAngle, angle);
+					ctx.stroke();
+				}
 				ctx.beginPath();
-				if (pattern[i]) {
-					ctx.fillStyle = "#00f5d4"; // Active step
-					ctx.arc(x, y, 5, 0, 2 * Math.PI);
+				if (pattern[i] === 2) {
+					ctx.fillStyle = "#00f5d4"; // Tied step
+					ctx.arc(x, y, 3, 0, 2 * Math.PI);
+				} else if (pattern[i]) {
+					ctx.fillStyle = params?.accent ? "#5ffce6" : "#00f5d4"; // Active step
+					// Fade steps by their trigger probability
+					ctx.globalAlpha = 0.3 + 0.7 * (params?.probability ?? 1);
+					ctx.arc(x, y, params?.accent ? 6 : 5, 0, 2 * Math.PI);
 				} else {
 					ctx.fillStyle = "#3a3a50"; // Inactive step
 					ctx.arc(x, y, 3, 0, 2 * Math.PI);
 				}
 				ctx.fill();
-			}
+				ctx.globalAlpha = 1;
 
-			if (isTransportPlaying) {
-				const stepInPattern = currentStep;
-				const angle = (stepInPattern / steps) * 2 * Math.PI - Math.PI / 2;
-				const x = centerX + radius * Math.cos(angle);
-				const y = centerY + radius * Math.sin(angle);
-				ctx.beginPath();
+				if (params && params.condition !== "always") {
+					ctx.beginPath();
+					ctx.strokeStyle = "#a45ee5"; // Conditional step
+					ctx.lineWidth = 2;
+					ctx.arc(x, y, 8, 0, 2 * Math.PI);
+					ctx.stroke();
+				}
+				if (pattern[i] === 1 && params && params.ratchet > 1) {
+					// Ratchet repeats as a short row of dots pointing inwards
+					ctx.fillStyle = "#00f5d4";
+					for (let r = 0; r < params.ratchet; r++) {
+						const dotRadius = radius - 10 - r * 3;
+						ctx.beginPath();
+						ctx.arc(centerX + dotRadius * Math.cos(angle), centerY + dotRadius * Math.sin(angle), 1, 0, 2 * Math.PI);
+						ctx.fill();
+					}
+				}
+				if (i === selectedStep) {
+					ctx.beginPath();
+					ctx.strokeStyle = "#fff";
+					ctx.lineWidth = 1;
+					ctx.arc(x, y, 10, 0, 2 * Math.PI);
+					ctx.stroke();
+				}
+			}
+
+			if (isTransportPlaying) {
+				const stepInPattern = currentStep;
+				const angle = (stepInPattern / steps) * 2 * Math.PI - Math.PI / 2;
+				const x = centerX + radius * Math.cos(angle);
+				const y = centerY + radius * Math.sin(angle);
+				ctx.beginPath();
 				ctx.fillStyle = "#fff";
 				ctx.arc(x, y, 7, 0, 2 * Math.PI);
 				ctx.fill();
@@ -1834,14 +3659,44 @@ const CircularVisualizerSequencer: React.FC<
 				ctx.stroke();
 			}
 
+			if (automatonGeneration !== undefined) {
+				ctx.fillStyle = "#a6accd";
+				ctx.font = "11px sans-serif";
+				ctx.textAlign = "center";
+				ctx.textBaseline = "middle";
+				ctx.fillText(`GEN ${automatonGeneration}`, centerX, centerY);
+			}
+
 			animationFrameId = requestAnimationFrame(draw);
 		};
 		draw();
 		return () => cancelAnimationFrame(animationFrameId);
-	}, [analyserNode, pattern, currentStep, isTransportPlaying, steps]);
+	}, [analyserNode, pattern, currentStep, isTransportPlaying, steps, stepParams, selectedStep, automatonGeneration]);
+
+	const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+		const canvas = canvasRef.current;
+		if (!canvas || !onStepClick || steps <= 0) return;
+		const rect = canvas.getBoundingClientRect();
+		// Map the click into canvas coordinates (the canvas may be scaled by CSS)
+		const x = ((e.clientX - rect.left) / rect.width) * canvas.width - canvas.width / 2;
+		const y = ((e.clientY - rect.top) / rect.height) * canvas.height - canvas.height / 2;
+		const radius = Math.min(canvas.width, canvas.height) / 2 - 10;
+		// Ignore clicks on the inner spectrum area
+		if (Math.hypot(x, y) < radius * 0.75) return;
+		const angle = Math.atan2(y, x) + Math.PI / 2;
+		const normalized = (angle / (2 * Math.PI) + 1) % 1;
+		onStepClick(Math.round(normalized * steps) % steps);
+	};
 
 	return (
-		<canvas ref={canvasRef} width="200" height="200" className="visualizer" />
+		<canvas
+			ref={canvasRef}
+			width="200"
+			height="200"
+			className="visualizer"
+			onClick={handleCanvasClick}
+			style={onStepClick ? { cursor: "pointer" } : undefined}
+		/>
 	);
 };
 
@@ -2162,6 +4017,10 @@ interface TopBarProps {
 	setBPM: (bpm: number) => void;
 	isTransportPlaying: boolean;
 	onToggleTransport: () => void;
+	globalSwing: number;
+	setGlobalSwing: (swing: number) => void;
+	isFillActive: boolean;
+	onToggleFill: () => void;
 	onPanic: () => void;
 	midiInputs: MIDIInput[];
 	selectedMidiInputId: string | null;
@@ -2206,6 +4065,10 @@ const TopBar: React.FC<TopBarProps> = ({
 	setBPM,
 	isTransportPlaying,
 	onToggleTransport,
+	globalSwing,
+	setGlobalSwing,
+	isFillActive,
+	onToggleFill,
 	onPanic,
 	midiInputs,
 	selectedMidiInputId,
@@ -2421,6 +4284,22 @@ const TopBar: React.FC<TopBarProps> = ({
 							</div>
 						</div>
 
+						<div className="control-item">
+							<label>Swing</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={globalSwing}
+									onChange={(e) => setGlobalSwing(parseFloat(e.target.value))}
+									style={{ width: '60px' }}
+								/>
+								<span style={{ minWidth: '30px' }}>{Math.round(50 + globalSwing * 25)}%</span>
+							</div>
+						</div>
+
 						<button
 							className={`icon-button ${isTransportPlaying ? "active" : ""}`}
 							onClick={onToggleTransport}
@@ -2430,6 +4309,15 @@ const TopBar: React.FC<TopBarProps> = ({
 							{isTransportPlaying ? "Stop" : "Play"}
 						</button>
 
+						<button
+							className={`icon-button ${isFillActive ? "active" : ""}`}
+							onClick={onToggleFill}
+							title="Fill (enables steps with the Fill condition)"
+							style={{ width: 'auto', padding: '0.5rem 1rem' }}
+						>
+							Fill
+						</button>
+
 						<button
 							className="icon-button panic-button"
 							onClick={onPanic}
@@ -2654,6 +4542,247 @@ const TopBar: React.FC<TopBarProps> = ({
 	);
 };
 
+interface ChordTrackPanelProps {
+	chordTrack: ChordTrackState;
+	onUpdate: (updates: Partial<ChordTrackState>) => void;
+	currentChordIndex: number;
+	isTransportPlaying: boolean;
+	scale: ScaleName;
+}
+
+const ChordTrackPanel: React.FC<ChordTrackPanelProps> = ({
+	chordTrack,
+	onUpdate,
+	currentChordIndex,
+	isTransportPlaying,
+	scale,
+}) => {
+	const scaleSteps = getScaleSteps(scale);
+	const updateChord = (index: number, updates: Partial<ChordStep>) => {
+		onUpdate({
+			chords: chordTrack.chords.map((chord, i) =>
+				i === index ? { ...chord, ...updates } : chord
+			),
+		});
+	};
+
+	return (
+		<div className="chord-track">
+			<div className="chord-track-header">
+				<h2>Chords</h2>
+				<div className="toggle-group compact">
+					<button
+						className={chordTrack.enabled ? "active" : ""}
+						onClick={() => onUpdate({ enabled: !chordTrack.enabled })}
+						title="Re-map every engine's notes to the progression"
+					>
+						{chordTrack.enabled ? "ON" : "OFF"}
+					</button>
+					<select
+						value={chordTrack.mode}
+						onChange={(e) => onUpdate({ mode: e.target.value as ChordTrackMode })}
+					>
+						<option value="transpose">Transpose</option>
+						<option value="snap">Snap to Chord</option>
+					</select>
+					<button
+						className={chordTrack.followMidi ? "active" : ""}
+						onClick={() => onUpdate({ followMidi: !chordTrack.followMidi })}
+						title="MIDI input follows the progression too"
+					>
+						MIDI
+					</button>
+					<button
+						className="small"
+						onClick={() =>
+							onUpdate({
+								chords: [...chordTrack.chords, { degree: 0, seventh: false, bars: 1 }],
+							})
+						}
+						title="Add a chord"
+					>
+						+
+					</button>
+				</div>
+			</div>
+			<div className="chord-track-chords">
+				{chordTrack.chords.map((chord, i) => (
+					<div
+						key={i}
+						className={`chord-step ${
+							chordTrack.enabled && isTransportPlaying && i === currentChordIndex ? "active" : ""
+						}`}
+					>
+						<select
+							value={chord.degree % scaleSteps.length}
+							onChange={(e) => updateChord(i, { degree: parseInt(e.target.value) })}
+						>
+							{scaleSteps.map((_, degree) => (
+								<option key={degree} value={degree}>
+									{getChordLabel(scaleSteps, { ...chord, degree })}
+								</option>
+							))}
+						</select>
+						<button
+							className={`small ${chord.seventh ? "active" : ""}`}
+							onClick={() => updateChord(i, { seventh: !chord.seventh })}
+							title="Add the seventh"
+						>
+							7
+						</button>
+						<input
+							type="number"
+							min="1"
+							max="16"
+							value={chord.bars}
+							onChange={(e) =>
+								updateChord(i, { bars: Math.max(1, parseInt(e.target.value) || 1) })
+							}
+							title="Bars"
+						/>
+						<button
+							className="small"
+							onClick={() =>
+								onUpdate({ chords: chordTrack.chords.filter((_, j) => j !== i) })
+							}
+							title="Remove chord"
+						>
+							×
+						</button>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+};
+
+interface WavetableEditorProps {
+	wavetable: WavetableState;
+	onUpdate: (updates: Partial<WavetableState>) => void;
+}
+
+// Shows one frame of the table; drawing on it rewrites that frame
+const WavetableEditor: React.FC<WavetableEditorProps> = ({ wavetable, onUpdate }) => {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const [selectedFrame, setSelectedFrame] = useState(0);
+	const frameIndex = Math.min(selectedFrame, wavetable.frames.length - 1);
+
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		const ctx = canvas?.getContext("2d");
+		if (!canvas || !ctx) return;
+		const { width, height } = canvas;
+		ctx.clearRect(0, 0, width, height);
+		ctx.strokeStyle = "#333";
+		ctx.beginPath();
+		ctx.moveTo(0, height / 2);
+		ctx.lineTo(width, height / 2);
+		ctx.stroke();
+
+		ctx.strokeStyle = "#a45ee5";
+		ctx.lineWidth = 2;
+		ctx.beginPath();
+		const frame = wavetable.frames[frameIndex] ?? [];
+		frame.forEach((value, i) => {
+			const x = (i / (frame.length - 1)) * width;
+			const y = (1 - (value + 1) / 2) * height;
+			if (i === 0) ctx.moveTo(x, y);
+			else ctx.lineTo(x, y);
+		});
+		ctx.stroke();
+	}, [wavetable.frames, frameIndex]);
+
+	const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+		const canvas = e.currentTarget;
+		const rect = canvas.getBoundingClientRect();
+		const frame = [...wavetable.frames[frameIndex]];
+		let lastIndex: number | null = null;
+		let lastValue = 0;
+
+		const draw = (clientX: number, clientY: number) => {
+			const x = Math.max(0, Math.min(rect.width, clientX - rect.left));
+			const y = Math.max(0, Math.min(rect.height, clientY - rect.top));
+			const index = Math.min(WAVETABLE_FRAME_SIZE - 1, Math.floor((x / rect.width) * WAVETABLE_FRAME_SIZE));
+			const value = 1 - (y / rect.height) * 2;
+			frame[index] = value;
+			// Fill the gap left by fast mouse movement
+			if (lastIndex !== null && Math.abs(index - lastIndex) > 1) {
+				const step = index > lastIndex ? 1 : -1;
+				for (let i = lastIndex + step; i !== index; i += step) {
+					const t = (i - lastIndex) / (index - lastIndex);
+					frame[i] = lastValue + (value - lastValue) * t;
+				}
+			}
+			lastIndex = index;
+			lastValue = value;
+			onUpdate({
+				frames: wavetable.frames.map((f, i) => (i === frameIndex ? [...frame] : f)),
+				name: undefined,
+			});
+		};
+
+		draw(e.clientX, e.clientY);
+		const handleMove = (moveEvent: MouseEvent) => draw(moveEvent.clientX, moveEvent.clientY);
+		const handleUp = () => {
+			window.removeEventListener("mousemove", handleMove);
+			window.removeEventListener("mouseup", handleUp);
+		};
+		window.addEventListener("mousemove", handleMove);
+		window.addEventListener("mouseup", handleUp);
+	};
+
+	return (
+		<div className="wavetable-editor">
+			<canvas
+				ref={canvasRef}
+				width={256}
+				height={80}
+				className="wavetable-canvas"
+				onMouseDown={handleMouseDown}
+			/>
+			<div className="wavetable-frames">
+				{wavetable.frames.map((_, i) => (
+					<button
+						key={i}
+						className={`small ${i === frameIndex ? "active" : ""}`}
+						onClick={() => setSelectedFrame(i)}
+						title={`Edit frame ${i + 1}`}
+					>
+						{i + 1}
+					</button>
+				))}
+				<button
+					className="small"
+					onClick={() => {
+						onUpdate({
+							frames: [
+								...wavetable.frames.slice(0, frameIndex + 1),
+								[...wavetable.frames[frameIndex]],
+								...wavetable.frames.slice(frameIndex + 1),
+							],
+						});
+						setSelectedFrame(frameIndex + 1);
+					}}
+					disabled={wavetable.frames.length >= WAVETABLE_MAX_FRAMES}
+					title="Duplicate frame"
+				>
+					+
+				</button>
+				<button
+					className="small"
+					onClick={() =>
+						onUpdate({ frames: wavetable.frames.filter((_, i) => i !== frameIndex) })
+					}
+					disabled={wavetable.frames.length <= 1}
+					title="Remove frame"
+				>
+					×
+				</button>
+			</div>
+		</div>
+	);
+};
+
 interface MainControlPanelProps extends EngineControlsProps {
 	children?: React.ReactNode;
 }
@@ -2818,6 +4947,7 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 	onUpdate,
 	onLayerUpdate,
 	onLoadSample,
+	onLoadWavetable,
 	onRecordSampleRequest,
 	onRecordSample,
 	onToggleLiveInput,
@@ -2833,8 +4963,43 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 	scaleFrequencies,
 	onSnapToScale,
 	onOpenMelodyEditor,
+	onStepUpdate,
+	onSelectPattern,
+	queuedPatternIndex,
+	recordMode,
+	stepRecordPosition,
+	onRecordModeChange,
+	onStepRecordRest,
+	onStepRecordReset,
+	allEngines,
 }) => {
 	const [activeTab, setActiveTab] = useState<EngineLayerType>("synth");
+	const [selectedStep, setSelectedStep] = useState<number | null>(null);
+	const arp = engine.arpeggiator ?? DEFAULT_ARPEGGIATOR;
+	const updateArp = (updates: Partial<ArpeggiatorState>) =>
+		onUpdate(engine.id, { arpeggiator: { ...arp, ...updates } });
+	const fm = engine.fm ?? DEFAULT_FM_LAYER;
+	const updateFm = (updates: Partial<FMLayerState>) =>
+		onUpdate(engine.id, { fm: { ...fm, ...updates } });
+	const updateFmOperator = (index: number, updates: Partial<FMOperatorState>) =>
+		updateFm({ operators: fm.operators.map((op, i) => (i === index ? { ...op, ...updates } : op)) });
+	const subOscillator = engine.synth.subOscillator ?? DEFAULT_SUB_OSCILLATOR;
+	const updateSubOscillator = (updates: Partial<SubOscillatorState>) =>
+		onLayerUpdate(engine.id, "synth", { subOscillator: { ...subOscillator, ...updates } });
+	const syncOscillator = engine.synth.syncOscillator ?? DEFAULT_SYNC_OSCILLATOR;
+	const updateSyncOscillator = (updates: Partial<SyncOscillatorState>) =>
+		onLayerUpdate(engine.id, "synth", { syncOscillator: { ...syncOscillator, ...updates } });
+	const pluck = engine.pluck ?? DEFAULT_PLUCK_LAYER;
+	const updatePluck = (updates: Partial<PluckLayerState>) =>
+		onUpdate(engine.id, { pluck: { ...pluck, ...updates } });
+	const drum = engine.drum ?? DEFAULT_DRUM_LAYER;
+	const updateDrum = (updates: Partial<DrumLayerState>) =>
+		onUpdate(engine.id, { drum: { ...drum, ...updates } });
+	const isLayerEnabled = (layer: EngineLayerType) =>
+		layer === "fm" ? fm.enabled
+			: layer === "pluck" ? pluck.enabled
+			: layer === "drum" ? drum.enabled
+			: engine[layer].enabled;
 	const dropZoneRef = useRef<HTMLDivElement>(null);
 
 	const [isRecording, setIsRecording] = useState(false);
@@ -2925,9 +5090,40 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 		}
 	};
 
+	const turing = engine.turing ?? createTuringState();
+	const automaton = engine.automaton ?? createAutomatonState(engine.sequencerSteps);
+	const automatonSeed = resizeAutomatonRow(automaton.seed, engine.sequencerSteps);
+	const activePatternIndex = engine.activePatternIndex ?? 0;
+	const patternChain = engine.patternChain || [];
+
+	const updateChainEntry = (index: number, updates: Partial<PatternChainEntry>) => {
+		onUpdate(engine.id, {
+			patternChain: patternChain.map((entry, i) =>
+				i === index ? { ...entry, ...updates } : entry
+			),
+		});
+	};
+
+	const links = engine.links || [];
+	const linkTargets = allEngines.filter((e) => e.id !== engine.id);
+
+	const updateLink = (index: number, updates: Partial<EngineLink>) => {
+		onUpdate(engine.id, {
+			links: links.map((link, i) => (i === index ? { ...link, ...updates } : link)),
+		});
+	};
+
 	const handleAdsrUpdate = (param: keyof ADSRState, value: number) => {
 		onUpdate(engine.id, { adsr: { ...engine.adsr, [param]: value } });
 	};
+	const pitchEnvelope = engine.pitchEnvelope ?? DEFAULT_PITCH_ENVELOPE;
+	const updatePitchEnvelope = (updates: Partial<PitchEnvelopeState>) =>
+		onUpdate(engine.id, { pitchEnvelope: { ...pitchEnvelope, ...updates } });
+	const voiceFilter = engine.voiceFilter ?? DEFAULT_VOICE_FILTER;
+	const updateVoiceFilter = (updates: Partial<VoiceFilterState>) =>
+		onUpdate(engine.id, { voiceFilter: { ...voiceFilter, ...updates } });
+	const updateVoiceFilterEnvelope = (param: keyof ADSRState, value: number) =>
+		updateVoiceFilter({ envelope: { ...voiceFilter.envelope, [param]: value } });
 
 	return (
 		<div className="control-group">
@@ -3020,9 +5216,28 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 							currentStep={currentStep}
 							isTransportPlaying={isTransportPlaying}
 							sequence={engine.sequence}
+							stepParams={engine.stepParams}
+							selectedStep={selectedStep}
+							automatonGeneration={
+								engine.sequencerMode === "automaton"
+									? engine.automaton?.generationCount ?? 0
+									: undefined
+							}
+							onStepClick={(step) =>
+								setSelectedStep(selectedStep === step ? null : step)
+							}
 						/>
 					</div>
 				)}
+				{selectedStep !== null && selectedStep < engine.sequencerSteps && (
+					<SequencerStepEditor
+						engine={engine}
+						stepIndex={selectedStep}
+						onUpdateStep={onStepUpdate}
+						onUpdateRhythm={(id, seq) => onUpdate(id, { sequence: seq })}
+						onClose={() => setSelectedStep(null)}
+					/>
+				)}
 			</div>
 
 
@@ -3049,8 +5264,135 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 							Edit
 						</button>
 					)}
+					<button
+						className={engine.followChords !== false ? "active" : ""}
+						onClick={() =>
+							onUpdate(engine.id, { followChords: engine.followChords === false })
+						}
+						title="Follow the chord track"
+					>
+						Chords
+					</button>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Record</label>
+				<div className="toggle-group">
+					{(["off", "step", "live"] as RecordMode[]).map(mode => (
+						<button
+							key={mode}
+							className={`${recordMode === mode ? "active" : ""} ${mode !== "off" && recordMode === mode ? "record-armed" : ""}`}
+							onClick={() => onRecordModeChange(engine.id, mode)}
+							title={
+								mode === "step"
+									? "Step record: each note or chord fills a step and moves on"
+									: mode === "live"
+									? "Live record: notes are quantized to the nearest step while playing"
+									: "Recording off"
+							}
+						>
+							{mode.toUpperCase()}
+						</button>
+					))}
+				</div>
+			</div>
+			{recordMode === "step" && (
+				<div className="control-row">
+					<label>Rec Step</label>
+					<div className="toggle-group">
+						<span className="control-value">
+							{stepRecordPosition + 1}/{engine.sequencerSteps}
+						</span>
+						<button className="small" onClick={() => onStepRecordRest(engine.id)} title="Write a rest and move on">
+							Rest
+						</button>
+						<button className="small" onClick={() => onStepRecordReset(engine.id)} title="Back to the first step">
+							Reset
+						</button>
+					</div>
+				</div>
+			)}
+			<div className="control-row">
+				<label>Arp</label>
+				<div className="toggle-group">
+					<button
+						className={arp.enabled ? "active" : ""}
+						onClick={() => updateArp({ enabled: !arp.enabled })}
+						title="Arpeggiate held MIDI notes (needs MIDI control)"
+					>
+						{arp.enabled ? "ON" : "OFF"}
+					</button>
+					<button
+						className={arp.latch ? "active" : ""}
+						onClick={() => updateArp({ latch: !arp.latch })}
+						title="Keep arpeggiating after the keys are released"
+					>
+						Latch
+					</button>
 				</div>
 			</div>
+			{arp.enabled && (
+				<>
+					<div className="control-row">
+						<label>Arp Order</label>
+						<div className="control-value-wrapper">
+							<select
+								value={arp.order}
+								onChange={(e) => updateArp({ order: e.target.value as ArpOrder })}
+							>
+								{arpOrders.map((o) => (
+									<option key={o} value={o}>
+										{arpOrderLabels[o]}
+									</option>
+								))}
+							</select>
+						</div>
+					</div>
+					<div className="control-row">
+						<label>Arp Rate</label>
+						<div className="control-value-wrapper">
+							<select
+								value={arp.rate}
+								onChange={(e) => updateArp({ rate: e.target.value })}
+							>
+								{sequencerRates.map((r) => (
+									<option key={r} value={r}>
+										{r}
+									</option>
+								))}
+							</select>
+						</div>
+					</div>
+					<div className="control-row">
+						<label>Arp Octaves</label>
+						<div className="control-value-wrapper">
+							<input
+								type="range"
+								min="1"
+								max="4"
+								step="1"
+								value={arp.octaves}
+								onChange={(e) => updateArp({ octaves: parseInt(e.target.value) })}
+							/>
+							<span>{arp.octaves}</span>
+						</div>
+					</div>
+					<div className="control-row">
+						<label>Arp Gate</label>
+						<div className="control-value-wrapper">
+							<input
+								type="range"
+								min="0.05"
+								max="1"
+								step="0.01"
+								value={arp.gate}
+								onChange={(e) => updateArp({ gate: parseFloat(e.target.value) })}
+							/>
+							<span>{Math.round(arp.gate * 100)}%</span>
+						</div>
+					</div>
+				</>
+			)}
 			
 
 			
@@ -3108,71 +5450,419 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 				</div>
 			</div>
 			<div className="control-row">
-				<label>Steps</label>
-				<div className="control-value-wrapper control-with-lock">
+				<label>Ratio</label>
+				<div className="control-value-wrapper rate-ratio">
 					<input
-						type="range"
-						min="2"
-						max="32"
-						step="1"
-						value={engine.sequencerSteps}
+						type="number"
+						min="1"
+						max="16"
+						value={(engine.rateRatio ?? [1, 1])[0]}
 						onChange={(e) =>
-							onUpdate(engine.id, { sequencerSteps: parseInt(e.target.value) })
+							onUpdate(engine.id, {
+								rateRatio: [
+									Math.min(16, Math.max(1, parseInt(e.target.value) || 1)),
+									(engine.rateRatio ?? [1, 1])[1],
+								],
+							})
 						}
+						title="Steps"
 					/>
-					<span>{engine.sequencerSteps}</span>
-					<LockIcon
-						isLocked={getLock(`engines.${engine.id}.sequencerSteps`)}
-						onClick={() => onToggleLock(`engines.${engine.id}.sequencerSteps`)}
-						title="Lock Steps"
-					/>
-				</div>
-			</div>
-			<div className="control-row">
-				<label>Pulses</label>
-				<div className="control-value-wrapper control-with-lock">
+					<span>:</span>
 					<input
-						type="range"
+						type="number"
 						min="1"
-						max={engine.sequencerSteps}
-						step="1"
-						value={engine.sequencerPulses}
+						max="16"
+						value={(engine.rateRatio ?? [1, 1])[1]}
 						onChange={(e) =>
-							onUpdate(engine.id, { sequencerPulses: parseInt(e.target.value) })
+							onUpdate(engine.id, {
+								rateRatio: [
+									(engine.rateRatio ?? [1, 1])[0],
+									Math.min(16, Math.max(1, parseInt(e.target.value) || 1)),
+								],
+							})
 						}
-					/>
-					<span>{engine.sequencerPulses}</span>
-					<LockIcon
-						isLocked={getLock(`engines.${engine.id}.sequencerPulses`)}
-						onClick={() => onToggleLock(`engines.${engine.id}.sequencerPulses`)}
-						title="Lock Pulses"
+						title="In the time of"
 					/>
 				</div>
 			</div>
 			<div className="control-row">
-				<label>Rotate</label>
-				<div className="control-value-wrapper control-with-lock">
+				<label>Swing</label>
+				<div className="control-value-wrapper">
 					<input
 						type="range"
 						min="0"
-						max={engine.sequencerSteps - 1}
-						step="1"
-						value={engine.sequencerRotate}
+						max="1"
+						step="0.01"
+						value={engine.swing ?? 0}
 						onChange={(e) =>
-							onUpdate(engine.id, { sequencerRotate: parseInt(e.target.value) })
+							onUpdate(engine.id, { swing: parseFloat(e.target.value) })
 						}
 					/>
-					<span>{engine.sequencerRotate}</span>
-					<LockIcon
-						isLocked={getLock(`engines.${engine.id}.sequencerRotate`)}
+					<span>{Math.round(50 + (engine.swing ?? 0) * 25)}%</span>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Direction</label>
+				<div className="control-value-wrapper control-with-lock">
+					<select
+						value={engine.playbackDirection ?? "forward"}
+						onChange={(e) =>
+							onUpdate(engine.id, {
+								playbackDirection: e.target.value as PlaybackDirection,
+							})
+						}
+					>
+						{playbackDirections.map((d) => (
+							<option key={d} value={d}>
+								{playbackDirectionLabels[d]}
+							</option>
+						))}
+					</select>
+					<LockIcon
+						isLocked={getLock(`engines.${engine.id}.playbackDirection`)}
+						onClick={() => onToggleLock(`engines.${engine.id}.playbackDirection`)}
+						title="Lock Playback Direction"
+					/>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Generator</label>
+				<div className="toggle-group">
+					{(["euclidean", "turing", "automaton"] as SequencerMode[]).map((mode) => (
+						<button
+							key={mode}
+							className={(engine.sequencerMode ?? "euclidean") === mode ? "active" : ""}
+							onClick={() =>
+								onUpdate(engine.id, {
+									sequencerMode: mode,
+									turing: mode === "turing" ? turing : engine.turing,
+									automaton: mode === "automaton" ? automaton : engine.automaton,
+								})
+							}
+							title={
+								mode === "turing"
+									? "Shift-register sequencer picking gates and scale degrees"
+									: mode === "automaton"
+									? "Cellular automaton, one generation per bar"
+									: "Euclidean rhythm from steps and pulses"
+							}
+						>
+							{mode === "turing" ? "Turing" : mode === "automaton" ? "CA" : "Euclid"}
+						</button>
+					))}
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Steps</label>
+				<div className="control-value-wrapper control-with-lock">
+					<input
+						type="range"
+						min="2"
+						max="32"
+						step="1"
+						value={engine.sequencerSteps}
+						onChange={(e) =>
+							onUpdate(engine.id, { sequencerSteps: parseInt(e.target.value) })
+						}
+					/>
+					<span>{engine.sequencerSteps}</span>
+					<LockIcon
+						isLocked={getLock(`engines.${engine.id}.sequencerSteps`)}
+						onClick={() => onToggleLock(`engines.${engine.id}.sequencerSteps`)}
+						title="Lock Steps"
+					/>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Pulses</label>
+				<div className="control-value-wrapper control-with-lock">
+					<input
+						type="range"
+						min="1"
+						max={engine.sequencerSteps}
+						step="1"
+						value={engine.sequencerPulses}
+						onChange={(e) =>
+							onUpdate(engine.id, { sequencerPulses: parseInt(e.target.value) })
+						}
+					/>
+					<span>{engine.sequencerPulses}</span>
+					<LockIcon
+						isLocked={getLock(`engines.${engine.id}.sequencerPulses`)}
+						onClick={() => onToggleLock(`engines.${engine.id}.sequencerPulses`)}
+						title="Lock Pulses"
+					/>
+				</div>
+			</div>
+			<div className="control-row">
+				<label>Rotate</label>
+				<div className="control-value-wrapper control-with-lock">
+					<input
+						type="range"
+						min="0"
+						max={engine.sequencerSteps - 1}
+						step="1"
+						value={engine.sequencerRotate}
+						onChange={(e) =>
+							onUpdate(engine.id, { sequencerRotate: parseInt(e.target.value) })
+						}
+					/>
+					<span>{engine.sequencerRotate}</span>
+					<LockIcon
+						isLocked={getLock(`engines.${engine.id}.sequencerRotate`)}
 						onClick={() => onToggleLock(`engines.${engine.id}.sequencerRotate`)}
 						title="Lock Rotate"
 					/>
 				</div>
 			</div>
+			{engine.sequencerMode === "automaton" && (
+				<>
+					<div className="control-row">
+						<label>Rule</label>
+						<div className="control-value-wrapper control-with-lock">
+							<input
+								type="number"
+								min="0"
+								max="255"
+								value={automaton.rule}
+								onChange={(e) =>
+									onUpdate(engine.id, {
+										automaton: {
+											...automaton,
+											rule: Math.min(255, Math.max(0, parseInt(e.target.value) || 0)),
+										},
+									})
+								}
+							/>
+							<span>Gen {automaton.generationCount}</span>
+							<LockIcon
+								isLocked={getLock(`engines.${engine.id}.automatonRule`)}
+								onClick={() => onToggleLock(`engines.${engine.id}.automatonRule`)}
+								title="Lock Rule"
+							/>
+						</div>
+					</div>
+					<div className="control-row">
+						<label>Seed</label>
+						<div className="automaton-seed">
+							{automatonSeed.map((cell, i) => (
+								<button
+									key={i}
+									className={`automaton-cell ${cell ? "active" : ""}`}
+									onClick={() =>
+										onUpdate(engine.id, {
+											automaton: {
+												...automaton,
+												seed: automatonSeed.map((c, j) => (j === i ? (c ? 0 : 1) : c)),
+											},
+										})
+									}
+									title={`Seed cell ${i + 1}`}
+								/>
+							))}
+						</div>
+					</div>
+				</>
+			)}
+			{engine.sequencerMode === "turing" && (
+				<>
+					<div className="control-row">
+						<label>Lock</label>
+						<div className="control-value-wrapper">
+							<input
+								type="range"
+								min="0"
+								max="1"
+								step="0.01"
+								value={turing.lock}
+								onChange={(e) =>
+									onUpdate(engine.id, { turing: { ...turing, lock: parseFloat(e.target.value) } })
+								}
+								title="0 = mutate freely, 1 = frozen loop"
+							/>
+							<span>{Math.round(turing.lock * 100)}%</span>
+						</div>
+					</div>
+					<div className="control-row">
+						<label>Length</label>
+						<div className="control-value-wrapper">
+							<input
+								type="range"
+								min="2"
+								max={TURING_MAX_LENGTH}
+								step="1"
+								value={turing.length}
+								onChange={(e) =>
+									onUpdate(engine.id, { turing: { ...turing, length: parseInt(e.target.value) } })
+								}
+							/>
+							<span>{turing.length}</span>
+							<button
+								className="small"
+								onClick={() =>
+									onUpdate(engine.id, {
+										turing: { ...turing, register: createTuringState().register },
+									})
+								}
+								title="Load a new random register"
+							>
+								New
+							</button>
+						</div>
+					</div>
+				</>
+			)}
+
+			<div className="pattern-bank">
+				<div className="pattern-slots">
+					{Array.from({ length: PATTERN_SLOT_COUNT }, (_, i) => (
+						<button
+							key={i}
+							className={`pattern-slot ${activePatternIndex === i ? "active" : ""} ${
+								engine.patterns?.[i] ? "filled" : ""
+							} ${queuedPatternIndex === i ? "queued" : ""}`}
+							onClick={() => onSelectPattern(engine.id, i)}
+							title={`Pattern ${i + 1}`}
+						>
+							{i + 1}
+						</button>
+					))}
+				</div>
+				<div className="control-row">
+					<label>Chain</label>
+					<div className="toggle-group compact">
+						<button
+							className={engine.isChainEnabled ? "active" : ""}
+							onClick={() =>
+								onUpdate(engine.id, { isChainEnabled: !engine.isChainEnabled })
+							}
+							title="Play the pattern chain (switches at bar boundaries)"
+						>
+							{engine.isChainEnabled ? "ON" : "OFF"}
+						</button>
+						<button
+							className="small"
+							onClick={() =>
+								onUpdate(engine.id, {
+									patternChain: [...patternChain, { pattern: activePatternIndex, bars: 1 }],
+								})
+							}
+							title="Append the active pattern to the chain"
+						>
+							+
+						</button>
+					</div>
+				</div>
+				{patternChain.length > 0 && (
+					<div className="pattern-chain">
+						{patternChain.map((entry, i) => (
+							<div key={i} className="pattern-chain-entry">
+								<span>{i + 1}.</span>
+								<select
+									value={entry.pattern}
+									onChange={(e) =>
+										updateChainEntry(i, { pattern: parseInt(e.target.value) })
+									}
+								>
+									{Array.from({ length: PATTERN_SLOT_COUNT }, (_, slot) => (
+										<option key={slot} value={slot}>
+											P{slot + 1}
+										</option>
+									))}
+								</select>
+								<input
+									type="number"
+									min="1"
+									max="64"
+									value={entry.bars}
+									onChange={(e) =>
+										updateChainEntry(i, {
+											bars: Math.max(1, parseInt(e.target.value) || 1),
+										})
+									}
+								/>
+								<span>bars</span>
+								<button
+									className="small"
+									onClick={() =>
+										onUpdate(engine.id, {
+											patternChain: patternChain.filter((_, j) => j !== i),
+										})
+									}
+									title="Remove from chain"
+								>
+									×
+								</button>
+							</div>
+						))}
+					</div>
+				)}
+			</div>
+
+			{linkTargets.length > 0 && (
+				<div className="engine-links">
+					<div className="control-row">
+						<label>Links</label>
+						<div className="toggle-group compact">
+							<button
+								className="small"
+								onClick={() =>
+									onUpdate(engine.id, {
+										links: [...links, { target: linkTargets[0].id, action: "reset", source: "loop" }],
+									})
+								}
+								title="Send this engine's step events to another engine"
+							>
+								+
+							</button>
+						</div>
+					</div>
+					{links.map((link, i) => (
+						<div key={i} className="engine-link-entry">
+							<select
+								value={link.source}
+								onChange={(e) => updateLink(i, { source: e.target.value as EngineLinkSource })}
+								title="When the link fires"
+							>
+								<option value="step">Each Step</option>
+								<option value="loop">Each Cycle</option>
+							</select>
+							<select
+								value={link.action}
+								onChange={(e) => updateLink(i, { action: e.target.value as EngineLinkAction })}
+							>
+								{engineLinkActions.map((action) => (
+									<option key={action} value={action}>
+										{engineLinkActionLabels[action]}
+									</option>
+								))}
+							</select>
+							<select
+								value={link.target}
+								onChange={(e) => updateLink(i, { target: e.target.value })}
+							>
+								{linkTargets.map((t) => (
+									<option key={t.id} value={t.id}>
+										{t.name}
+									</option>
+								))}
+							</select>
+							<button
+								className="small"
+								onClick={() =>
+									onUpdate(engine.id, { links: links.filter((_, j) => j !== i) })
+								}
+								title="Remove link"
+							>
+								×
+							</button>
+						</div>
+					))}
+				</div>
+			)}
 
 			<div className="tab-nav">
-				{(["synth", "noise", "sampler"] as EngineLayerType[]).map((layer) => (
+				{engineLayerTypes.map((layer) => (
 					<button
 						key={layer}
 						onClick={() => setActiveTab(layer)}
@@ -3181,60 +5871,309 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 						}`}
 					>
 						<span className="tab-button-label">
-							{layer.charAt(0).toUpperCase() + layer.slice(1)}
+							{engineLayerLabels[layer]}
 						</span>
 						<div
 							className={`tab-power-button ${
-								engine[layer].enabled ? "active" : ""
+								isLayerEnabled(layer) ? "active" : ""
 							}`}
 							onClick={(e) => {
 								e.stopPropagation();
-								onLayerUpdate(engine.id, layer, {
-									enabled: !engine[layer].enabled,
-								});
+								if (layer === "fm") updateFm({ enabled: !fm.enabled });
+								else if (layer === "pluck") updatePluck({ enabled: !pluck.enabled });
+								else if (layer === "drum") updateDrum({ enabled: !drum.enabled });
+								else onLayerUpdate(engine.id, layer, { enabled: !engine[layer].enabled });
 							}}
 						/>
 					</button>
 				))}
 			</div>
 
-			<div className="tab-content">
-				{activeTab === "synth" && (
-					<>
+			<div className="tab-content">
+				{activeTab === "synth" && (
+					<>
+						<div className="control-row">
+							<label>Volume</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={engine.synth.volume}
+									onChange={(e) =>
+										onLayerUpdate(engine.id, "synth", {
+											volume: parseFloat(e.target.value),
+										})
+									}
+								/>
+								<span>{Math.round(engine.synth.volume * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.synth.volume`)}
+									onClick={() =>
+										onToggleLock(`engines.${engine.id}.synth.volume`)
+									}
+									title="Lock Synth Volume"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Shape</label>
+							<div className="control-with-lock">
+								<select
+									value={engine.synth.oscillatorType}
+									onChange={(e) => {
+										const oscillatorType = e.target.value as SynthOscillatorType;
+										onLayerUpdate(engine.id, "synth", {
+											oscillatorType,
+											...(oscillatorType === "wavetable" && !engine.synth.wavetable
+												? { wavetable: createDefaultWavetable() }
+												: {}),
+										});
+									}}
+								>
+									{synthOscillatorTypes.map((type) => (
+										<option key={type} value={type}>
+											{type}
+										</option>
+									))}
+								</select>
+								<LockIcon
+									isLocked={getLock(
+										`engines.${engine.id}.synth.oscillatorType`
+									)}
+									onClick={() =>
+										onToggleLock(`engines.${engine.id}.synth.oscillatorType`)
+									}
+									title="Lock Synth Shape"
+								/>
+							</div>
+						</div>
+						{engine.synth.oscillatorType === "wavetable" && engine.synth.wavetable && (
+							<>
+								<div className="control-row">
+									<label>Table</label>
+									<div className="wavetable-source">
+										<span>
+											{engine.synth.wavetable.name ?? "Drawn"} ({engine.synth.wavetable.frames.length})
+										</span>
+										<input
+											type="file"
+											accept="audio/wav,audio/*"
+											multiple
+											onChange={(e) => {
+												if (e.target.files) {
+													onLoadWavetable(engine.id, Array.from(e.target.files), engine.synth.wavetable?.fileFrameSize ?? WAV_FRAME_LENGTH);
+												}
+												e.target.value = "";
+											}}
+											style={{ display: "none" }}
+											id={`wavetable-input-${engine.id}`}
+										/>
+										<button
+											className="small"
+											onClick={() =>
+												document.getElementById(`wavetable-input-${engine.id}`)?.click()
+											}
+											title="Load single-cycle or multi-frame WAV files"
+										>
+											Load WAV
+										</button>
+										<select
+											value={engine.synth.wavetable.fileFrameSize ?? WAV_FRAME_LENGTH}
+											onChange={(e) =>
+												onLayerUpdate(engine.id, "synth", {
+													wavetable: { ...engine.synth.wavetable!, fileFrameSize: parseInt(e.target.value) },
+												})
+											}
+											title="Samples per frame in the files to load"
+										>
+											{wavFrameLengths.map((length) => (
+												<option key={length} value={length}>
+													{length === 0 ? "Single cycle" : `${length} / frame`}
+												</option>
+											))}
+										</select>
+										<button
+											className="small"
+											onClick={() =>
+												onLayerUpdate(engine.id, "synth", {
+													wavetable: {
+														...createDefaultWavetable(),
+														position: engine.synth.wavetable!.position,
+														fileFrameSize: engine.synth.wavetable!.fileFrameSize,
+													},
+												})
+											}
+										>
+											Reset
+										</button>
+									</div>
+								</div>
+								<WavetableEditor
+									wavetable={engine.synth.wavetable}
+									onUpdate={(updates) =>
+										onLayerUpdate(engine.id, "synth", {
+											wavetable: { ...engine.synth.wavetable!, ...updates },
+										})
+									}
+								/>
+								<div className="control-row">
+									<label>Position</label>
+									<div className="control-with-lock full-width">
+										<input
+											type="range"
+											min="0"
+											max="1"
+											step="0.01"
+											value={engine.synth.wavetable.position}
+											onChange={(e) =>
+												onLayerUpdate(engine.id, "synth", {
+													wavetable: {
+														...engine.synth.wavetable!,
+														position: parseFloat(e.target.value),
+													},
+												})
+											}
+										/>
+										<span>{Math.round(engine.synth.wavetable.position * 100)}%</span>
+										<LockIcon
+											isLocked={getLock(`engines.${engine.id}.synth.wavetablePosition`)}
+											onClick={() =>
+												onToggleLock(`engines.${engine.id}.synth.wavetablePosition`)
+											}
+											title="Lock Wavetable Position"
+										/>
+									</div>
+								</div>
+							</>
+						)}
+
+						<div className="control-row">
+							<label>Unison</label>
+							<div className="control-value-wrapper">
+								<select
+									value={engine.synth.unisonVoices ?? 1}
+									onChange={(e) =>
+										onLayerUpdate(engine.id, "synth", {
+											unisonVoices: parseInt(e.target.value),
+										})
+									}
+								>
+									{[1, 2, 3, 4, 5, 6, 7, 8].map((count) => (
+										<option key={count} value={count}>
+											{count === 1 ? "Off" : `${count} voices`}
+										</option>
+									))}
+								</select>
+								<button
+									className={`small ${engine.synth.randomPhase ? "active" : ""}`}
+									onClick={() =>
+										onLayerUpdate(engine.id, "synth", {
+											randomPhase: !engine.synth.randomPhase,
+										})
+									}
+									title="Start each oscillator at a random phase"
+								>
+									Rnd Phase
+								</button>
+							</div>
+						</div>
+						{(engine.synth.unisonVoices ?? 1) > 1 && (
+							<>
+								<div className="control-row">
+									<label>Detune</label>
+									<div className="control-value-wrapper">
+										<input
+											type="range"
+											min="0"
+											max="100"
+											step="1"
+											value={engine.synth.unisonDetune ?? 0}
+											onChange={(e) =>
+												onLayerUpdate(engine.id, "synth", {
+													unisonDetune: parseFloat(e.target.value),
+												})
+											}
+										/>
+										<span>{(engine.synth.unisonDetune ?? 0).toFixed(0)} ct</span>
+									</div>
+								</div>
+								<div className="control-row">
+									<label>Spread</label>
+									<div className="control-value-wrapper">
+										<input
+											type="range"
+											min="0"
+											max="1"
+											step="0.01"
+											value={engine.synth.unisonSpread ?? 0}
+											onChange={(e) =>
+												onLayerUpdate(engine.id, "synth", {
+													unisonSpread: parseFloat(e.target.value),
+												})
+											}
+										/>
+										<span>{Math.round((engine.synth.unisonSpread ?? 0) * 100)}%</span>
+									</div>
+								</div>
+							</>
+						)}
+
 						<div className="control-row">
-							<label>Volume</label>
-							<div className="control-with-lock full-width">
+							<label>Sub Osc</label>
+							<div className="control-value-wrapper">
+								<button
+									className={`small ${subOscillator.enabled ? "active" : ""}`}
+									onClick={() => updateSubOscillator({ enabled: !subOscillator.enabled })}
+								>
+									{subOscillator.enabled ? "ON" : "OFF"}
+								</button>
+								<select
+									value={subOscillator.octave}
+									onChange={(e) =>
+										updateSubOscillator({ octave: parseInt(e.target.value) === 2 ? 2 : 1 })
+									}
+								>
+									<option value={1}>-1 oct</option>
+									<option value={2}>-2 oct</option>
+								</select>
+								<select
+									value={subOscillator.shape}
+									onChange={(e) =>
+										updateSubOscillator({ shape: e.target.value as BasicOscillatorType })
+									}
+								>
+									{oscillatorTypes.map((type) => (
+										<option key={type} value={type}>
+											{type}
+										</option>
+									))}
+								</select>
 								<input
 									type="range"
 									min="0"
 									max="1"
 									step="0.01"
-									value={engine.synth.volume}
-									onChange={(e) =>
-										onLayerUpdate(engine.id, "synth", {
-											volume: parseFloat(e.target.value),
-										})
-									}
-								/>
-								<span>{Math.round(engine.synth.volume * 100)}%</span>
-								<LockIcon
-									isLocked={getLock(`engines.${engine.id}.synth.volume`)}
-									onClick={() =>
-										onToggleLock(`engines.${engine.id}.synth.volume`)
-									}
-									title="Lock Synth Volume"
+									value={subOscillator.level}
+									onChange={(e) => updateSubOscillator({ level: parseFloat(e.target.value) })}
+									title="Sub level"
 								/>
 							</div>
 						</div>
 						<div className="control-row">
-							<label>Shape</label>
-							<div className="control-with-lock">
+							<label>Sync Osc</label>
+							<div className="control-value-wrapper">
+								<button
+									className={`small ${syncOscillator.enabled ? "active" : ""}`}
+									onClick={() => updateSyncOscillator({ enabled: !syncOscillator.enabled })}
+								>
+									{syncOscillator.enabled ? "ON" : "OFF"}
+								</button>
 								<select
-									value={engine.synth.oscillatorType}
+									value={syncOscillator.shape}
 									onChange={(e) =>
-										onLayerUpdate(engine.id, "synth", {
-											oscillatorType: e.target.value as OscillatorType,
-										})
+										updateSyncOscillator({ shape: e.target.value as BasicOscillatorType })
 									}
 								>
 									{oscillatorTypes.map((type) => (
@@ -3243,17 +6182,33 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 										</option>
 									))}
 								</select>
-								<LockIcon
-									isLocked={getLock(
-										`engines.${engine.id}.synth.oscillatorType`
-									)}
-									onClick={() =>
-										onToggleLock(`engines.${engine.id}.synth.oscillatorType`)
-									}
-									title="Lock Synth Shape"
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={syncOscillator.level}
+									onChange={(e) => updateSyncOscillator({ level: parseFloat(e.target.value) })}
+									title="Sync level"
 								/>
 							</div>
 						</div>
+						{syncOscillator.enabled && (
+							<div className="control-row">
+								<label>Sync Ratio</label>
+								<div className="control-value-wrapper">
+									<input
+										type="range"
+										min="1"
+										max={HARD_SYNC_MAX_RATIO}
+										step="0.01"
+										value={syncOscillator.ratio}
+										onChange={(e) => updateSyncOscillator({ ratio: parseFloat(e.target.value) })}
+									/>
+									<span>{syncOscillator.ratio.toFixed(2)}x</span>
+								</div>
+							</div>
+						)}
 
 						<div className="control-row">
 							<label>Frequency</label>
@@ -3315,26 +6270,298 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 									}
 									title="Lock Preset Note"
 								/>
-							</div>
-							<div className="snap-control">
-								<div
-									className="snap-indicator"
-									style={{ opacity: isFrequencyOverridden ? 1 : 0 }}
-									title="Frequency is off-scale"
+							</div>
+							<div className="snap-control">
+								<div
+									className="snap-indicator"
+									style={{ opacity: isFrequencyOverridden ? 1 : 0 }}
+									title="Frequency is off-scale"
+								/>
+								<button
+									className="small"
+									onClick={() => onSnapToScale(engine.id)}
+									title="Snap to nearest scale note"
+								>
+									Snap
+								</button>
+							</div>
+						</div>
+
+					</>
+				)}
+				{activeTab === "noise" && (
+					<>
+						<div className="control-row">
+							<label>Volume</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={engine.noise.volume}
+									onChange={(e) =>
+										onLayerUpdate(engine.id, "noise", {
+											volume: parseFloat(e.target.value),
+										})
+									}
+								/>
+								<span>{Math.round(engine.noise.volume * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.noise.volume`)}
+									onClick={() =>
+										onToggleLock(`engines.${engine.id}.noise.volume`)
+									}
+									title="Lock Noise Volume"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Type</label>
+							<div className="control-with-lock">
+								<select
+									value={engine.noise.noiseType}
+									onChange={(e) =>
+										onLayerUpdate(engine.id, "noise", {
+											noiseType: e.target.value as NoiseType,
+										})
+									}
+								>
+									{noiseTypes.map((type) => (
+										<option key={type} value={type}>
+											{type}
+										</option>
+									))}
+								</select>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.noise.noiseType`)}
+									onClick={() =>
+										onToggleLock(`engines.${engine.id}.noise.noiseType`)
+									}
+									title="Lock Noise Type"
+								/>
+							</div>
+						</div>
+					</>
+				)}
+				{activeTab === "fm" && (
+					<>
+						<div className="control-row">
+							<label>Volume</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={fm.volume}
+									onChange={(e) => updateFm({ volume: parseFloat(e.target.value) })}
+								/>
+								<span>{Math.round(fm.volume * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.fm.volume`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.fm.volume`)}
+									title="Lock FM Volume"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Algorithm</label>
+							<div className="control-with-lock">
+								<div className="toggle-group">
+									{fmAlgorithms.map((algorithm) => (
+										<button
+											key={algorithm}
+											className={fm.algorithm === algorithm ? "active" : ""}
+											onClick={() => updateFm({ algorithm })}
+										>
+											{fmAlgorithmLabels[algorithm]}
+										</button>
+									))}
+								</div>
+								<select
+									value={fm.operatorCount}
+									onChange={(e) => updateFm({ operatorCount: parseInt(e.target.value) })}
+									title="Operators"
+								>
+									{[2, 3, 4].map((count) => (
+										<option key={count} value={count}>
+											{count} ops
+										</option>
+									))}
+								</select>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.fm.algorithm`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.fm.algorithm`)}
+									title="Lock FM Algorithm"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Locks</label>
+							<div className="control-with-lock">
+								<span>Ratios</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.fm.ratios`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.fm.ratios`)}
+									title="Lock FM Ratios"
+								/>
+								<span>Indexes</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.fm.indexes`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.fm.indexes`)}
+									title="Lock FM Indexes"
+								/>
+							</div>
+						</div>
+						<div className="fm-operators">
+							{fm.operators.slice(0, fm.operatorCount).map((op, i) => (
+								<div key={i} className="fm-operator">
+									<span className="fm-operator-name">
+										{i === 0 ? "Carrier" : `Op ${i + 1}`}
+									</span>
+									<label>
+										Ratio
+										<input
+											type="number"
+											min="0.125"
+											max="16"
+											step="0.01"
+											value={op.ratio}
+											onChange={(e) =>
+												updateFmOperator(i, { ratio: Math.max(0.125, parseFloat(e.target.value) || 1) })
+											}
+										/>
+									</label>
+									{i > 0 && (
+										<label>
+											Index
+											<input
+												type="range"
+												min="0"
+												max="12"
+												step="0.1"
+												value={op.index}
+												onChange={(e) => updateFmOperator(i, { index: parseFloat(e.target.value) })}
+											/>
+											<span>{op.index.toFixed(1)}</span>
+										</label>
+									)}
+									{(["attack", "decay", "sustain", "release"] as const).map((stage) => (
+										<label key={stage}>
+											{stage.charAt(0).toUpperCase()}
+											<input
+												type="number"
+												min="0"
+												max={stage === "sustain" ? 1 : 10}
+												step="0.01"
+												value={op[stage]}
+												onChange={(e) =>
+													updateFmOperator(i, { [stage]: Math.max(0, parseFloat(e.target.value) || 0) })
+												}
+											/>
+										</label>
+									))}
+								</div>
+							))}
+						</div>
+					</>
+				)}
+				{activeTab === "pluck" && (
+					<>
+						<div className="control-row">
+							<label>Volume</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={pluck.volume}
+									onChange={(e) => updatePluck({ volume: parseFloat(e.target.value) })}
+								/>
+								<span>{Math.round(pluck.volume * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.pluck.volume`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.pluck.volume`)}
+									title="Lock Pluck Volume"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Exciter</label>
+							<div className="toggle-group">
+								{pluckExciters.map((exciter) => (
+									<button
+										key={exciter}
+										className={pluck.exciter === exciter ? "active" : ""}
+										onClick={() => updatePluck({ exciter })}
+									>
+										{pluckExciterLabels[exciter]}
+									</button>
+								))}
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Damping</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={pluck.damping}
+									onChange={(e) => updatePluck({ damping: parseFloat(e.target.value) })}
+								/>
+								<span>{Math.round(pluck.damping * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.pluck.damping`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.pluck.damping`)}
+									title="Lock Pluck Damping"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Brightness</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={pluck.brightness}
+									onChange={(e) => updatePluck({ brightness: parseFloat(e.target.value) })}
+								/>
+								<span>{Math.round(pluck.brightness * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.pluck.brightness`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.pluck.brightness`)}
+									title="Lock Pluck Brightness"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Decay</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0.05"
+									max="6"
+									step="0.01"
+									value={pluck.decay}
+									onChange={(e) => updatePluck({ decay: parseFloat(e.target.value) })}
+								/>
+								<span>{pluck.decay.toFixed(2)}s</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.pluck.decay`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.pluck.decay`)}
+									title="Lock Pluck Decay"
 								/>
-								<button
-									className="small"
-									onClick={() => onSnapToScale(engine.id)}
-									title="Snap to nearest scale note"
-								>
-									Snap
-								</button>
 							</div>
 						</div>
-
 					</>
 				)}
-				{activeTab === "noise" && (
+				{activeTab === "drum" && (
 					<>
 						<div className="control-row">
 							<label>Volume</label>
@@ -3344,46 +6571,92 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 									min="0"
 									max="1"
 									step="0.01"
-									value={engine.noise.volume}
-									onChange={(e) =>
-										onLayerUpdate(engine.id, "noise", {
-											volume: parseFloat(e.target.value),
-										})
-									}
+									value={drum.volume}
+									onChange={(e) => updateDrum({ volume: parseFloat(e.target.value) })}
 								/>
-								<span>{Math.round(engine.noise.volume * 100)}%</span>
+								<span>{Math.round(drum.volume * 100)}%</span>
 								<LockIcon
-									isLocked={getLock(`engines.${engine.id}.noise.volume`)}
-									onClick={() =>
-										onToggleLock(`engines.${engine.id}.noise.volume`)
-									}
-									title="Lock Noise Volume"
+									isLocked={getLock(`engines.${engine.id}.drum.volume`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.drum.volume`)}
+									title="Lock Drum Volume"
 								/>
 							</div>
 						</div>
 						<div className="control-row">
-							<label>Type</label>
+							<label>Model</label>
 							<div className="control-with-lock">
-								<select
-									value={engine.noise.noiseType}
-									onChange={(e) =>
-										onLayerUpdate(engine.id, "noise", {
-											noiseType: e.target.value as NoiseType,
-										})
-									}
-								>
-									{noiseTypes.map((type) => (
-										<option key={type} value={type}>
-											{type}
-										</option>
+								<div className="toggle-group">
+									{drumModels.map((model) => (
+										<button
+											key={model}
+											className={drum.model === model ? "active" : ""}
+											onClick={() => updateDrum({ model })}
+										>
+											{drumModelLabels[model]}
+										</button>
 									))}
-								</select>
+								</div>
 								<LockIcon
-									isLocked={getLock(`engines.${engine.id}.noise.noiseType`)}
-									onClick={() =>
-										onToggleLock(`engines.${engine.id}.noise.noiseType`)
-									}
-									title="Lock Noise Type"
+									isLocked={getLock(`engines.${engine.id}.drum.model`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.drum.model`)}
+									title="Lock Drum Model"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Tone</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={drum.tone}
+									onChange={(e) => updateDrum({ tone: parseFloat(e.target.value) })}
+								/>
+								<span>{Math.round(drum.tone * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.drum.tone`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.drum.tone`)}
+									title="Lock Drum Tone"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Decay</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={drum.decay}
+									onChange={(e) => updateDrum({ decay: parseFloat(e.target.value) })}
+								/>
+								<span>{Math.round(drum.decay * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.drum.decay`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.drum.decay`)}
+									title="Lock Drum Decay"
+								/>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Snap</label>
+							<div className="control-with-lock full-width">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={drum.snap}
+									onChange={(e) => updateDrum({ snap: parseFloat(e.target.value) })}
+								/>
+								<span>{Math.round(drum.snap * 100)}%</span>
+								<LockIcon
+									isLocked={getLock(`engines.${engine.id}.drum.snap`)}
+									onClick={() => onToggleLock(`engines.${engine.id}.drum.snap`)}
+									title="Lock Drum Snap"
 								/>
 							</div>
 						</div>
@@ -3723,6 +6996,242 @@ const EngineControls: React.FC<EngineControlsProps> = ({
 						/>
 					</div>
 				</div>
+				<div className="control-row">
+					<label>Velocity</label>
+					<div className="control-value-wrapper">
+						<input
+							type="range"
+							min="0"
+							max="1"
+							step="0.01"
+							value={engine.velocityAmount ?? 1}
+							onChange={(e) =>
+								onUpdate(engine.id, { velocityAmount: parseFloat(e.target.value) })
+							}
+						/>
+						<span>{Math.round((engine.velocityAmount ?? 1) * 100)}%</span>
+					</div>
+				</div>
+				<div className="control-row">
+					<label>Voices</label>
+					<div className="control-value-wrapper">
+						<input
+							type="range"
+							min="1"
+							max={MAX_VOICES_LIMIT}
+							step="1"
+							value={engine.maxVoices ?? DEFAULT_MAX_VOICES}
+							onChange={(e) =>
+								onUpdate(engine.id, { maxVoices: parseInt(e.target.value) })
+							}
+						/>
+						<span>{engine.maxVoices ?? DEFAULT_MAX_VOICES}</span>
+					</div>
+				</div>
+				<div className="control-row">
+					<label>Steal</label>
+					<div className="control-value-wrapper">
+						<select
+							value={engine.voiceStealPolicy ?? "oldest"}
+							onChange={(e) =>
+								onUpdate(engine.id, { voiceStealPolicy: e.target.value as VoiceStealPolicy })
+							}
+						>
+							{voiceStealPolicies.map((policy) => (
+								<option key={policy} value={policy}>
+									{voiceStealPolicyLabels[policy]}
+								</option>
+							))}
+						</select>
+					</div>
+				</div>
+			</div>
+			<div className="adsr-container">
+				<h4>Pitch Envelope</h4>
+				<div className="control-row">
+					<label>Amount</label>
+					<div className="control-value-wrapper">
+						<input
+							type="range"
+							min="-48"
+							max="48"
+							step="1"
+							value={pitchEnvelope.amount}
+							onChange={(e) => updatePitchEnvelope({ amount: parseFloat(e.target.value) })}
+							onDoubleClick={() => updatePitchEnvelope({ amount: 0 })}
+						/>
+						<span>{pitchEnvelope.amount > 0 ? "+" : ""}{pitchEnvelope.amount} st</span>
+					</div>
+				</div>
+				<div className="control-row">
+					<label>Decay</label>
+					<div className="control-value-wrapper">
+						<input
+							type="range"
+							min="0.005"
+							max="2"
+							step="0.001"
+							value={pitchEnvelope.decay}
+							onChange={(e) => updatePitchEnvelope({ decay: parseFloat(e.target.value) })}
+						/>
+						<span>{pitchEnvelope.decay.toFixed(3)} s</span>
+					</div>
+				</div>
+				<div className="control-row">
+					<label>Curve</label>
+					<div className="control-value-wrapper">
+						<input
+							type="range"
+							min="0"
+							max="1"
+							step="0.01"
+							value={pitchEnvelope.curve}
+							onChange={(e) => updatePitchEnvelope({ curve: parseFloat(e.target.value) })}
+						/>
+						<span>{Math.round(pitchEnvelope.curve * 100)}%</span>
+					</div>
+				</div>
+			</div>
+			<div className="adsr-container">
+				<h4>Voice Filter</h4>
+				<div className="control-row">
+					<label>Filter</label>
+					<div className="control-value-wrapper">
+						<button
+							className={`small ${voiceFilter.enabled ? "active" : ""}`}
+							onClick={() => updateVoiceFilter({ enabled: !voiceFilter.enabled })}
+							title="Give every note its own filter and envelope"
+						>
+							{voiceFilter.enabled ? "ON" : "OFF"}
+						</button>
+						<select
+							value={voiceFilter.type}
+							onChange={(e) => updateVoiceFilter({ type: e.target.value as FilterType })}
+						>
+							{filterTypes.map((type) => (
+								<option key={type} value={type}>
+									{type}
+								</option>
+							))}
+						</select>
+					</div>
+				</div>
+				{voiceFilter.enabled && (
+					<>
+						<div className="control-row">
+							<label>Cutoff</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="20"
+									max="12000"
+									step="1"
+									value={voiceFilter.cutoff}
+									onChange={(e) => updateVoiceFilter({ cutoff: parseFloat(e.target.value) })}
+								/>
+								<span>{voiceFilter.cutoff.toFixed(0)} Hz</span>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Resonance</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="0"
+									max="30"
+									step="0.1"
+									value={voiceFilter.resonance}
+									onChange={(e) => updateVoiceFilter({ resonance: parseFloat(e.target.value) })}
+								/>
+								<span>{voiceFilter.resonance.toFixed(1)}</span>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Key Track</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={voiceFilter.keyTracking}
+									onChange={(e) => updateVoiceFilter({ keyTracking: parseFloat(e.target.value) })}
+								/>
+								<span>{Math.round(voiceFilter.keyTracking * 100)}%</span>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Env Amount</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="-5"
+									max="5"
+									step="0.1"
+									value={voiceFilter.envAmount}
+									onChange={(e) => updateVoiceFilter({ envAmount: parseFloat(e.target.value) })}
+								/>
+								<span>{voiceFilter.envAmount > 0 ? "+" : ""}{voiceFilter.envAmount.toFixed(1)} oct</span>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Attack</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="0.001"
+									max="3"
+									step="0.001"
+									value={voiceFilter.envelope.attack}
+									onChange={(e) => updateVoiceFilterEnvelope("attack", parseFloat(e.target.value))}
+								/>
+								<span>{voiceFilter.envelope.attack.toFixed(3)} s</span>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Decay</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="0.001"
+									max="3"
+									step="0.001"
+									value={voiceFilter.envelope.decay}
+									onChange={(e) => updateVoiceFilterEnvelope("decay", parseFloat(e.target.value))}
+								/>
+								<span>{voiceFilter.envelope.decay.toFixed(3)} s</span>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Sustain</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="0"
+									max="1"
+									step="0.01"
+									value={voiceFilter.envelope.sustain}
+									onChange={(e) => updateVoiceFilterEnvelope("sustain", parseFloat(e.target.value))}
+								/>
+								<span>{voiceFilter.envelope.sustain.toFixed(2)}</span>
+							</div>
+						</div>
+						<div className="control-row">
+							<label>Release</label>
+							<div className="control-value-wrapper">
+								<input
+									type="range"
+									min="0.001"
+									max="5"
+									step="0.001"
+									value={voiceFilter.envelope.release}
+									onChange={(e) => updateVoiceFilterEnvelope("release", parseFloat(e.target.value))}
+								/>
+								<span>{voiceFilter.envelope.release.toFixed(3)} s</span>
+							</div>
+						</div>
+					</>
+				)}
 			</div>
 
 			<div className="engine-routing-control-bottom">
@@ -5305,6 +8814,14 @@ const RoutingMatrix: React.FC<RoutingMatrixProps> = ({
 				label: `${engine.name} Synth Freq`,
 				key: `engine${engine.id.slice(-1)}SynthFreq`,
 			},
+			{
+				label: `${engine.name} Unison Detune`,
+				key: `engine${engine.id.slice(-1)}SynthDetune`,
+			},
+			{
+				label: `${engine.name} Sync Ratio`,
+				key: `engine${engine.id.slice(-1)}SyncRatio`,
+			},
 			{
 				label: `${engine.name} Sampler/Grain Pitch`,
 				key: `engine${engine.id.slice(-1)}SamplerTranspose`,
@@ -5325,6 +8842,10 @@ const RoutingMatrix: React.FC<RoutingMatrixProps> = ({
 				label: `${engine.name} Grain Jitter`,
 				key: `engine${engine.id.slice(-1)}GrainJitter`,
 			},
+			{
+				label: `${engine.name} Wavetable Pos`,
+				key: `engine${engine.id.slice(-1)}WavetablePosition`,
+			},
 			{
 				label: `${engine.name} Rate`,
 				key: `engine${engine.id.slice(-1)}Rate`,
@@ -5370,6 +8891,26 @@ const RoutingMatrix: React.FC<RoutingMatrixProps> = ({
 		}
 	};
 
+	const handleNoteSourceCheckboxChange = (
+		engineId: string,
+		source: "velocityRouting" | "keyRouting",
+		destKey: keyof LFORoutingState,
+		isChecked: boolean
+	) => {
+		const engine = engineStates.find((e) => e.id === engineId);
+		if (engine) {
+			const routing = engine[source] ?? DEFAULT_LFO_ROUTING_STATE;
+			onEngineUpdate(engineId, {
+				[source]: { ...routing, [destKey]: isChecked },
+			});
+		}
+	};
+
+	const noteSources = engineStates.flatMap((engine) => [
+		{ engine, source: "velocityRouting" as const, label: `VEL ${engine.id.slice(-1)}` },
+		{ engine, source: "keyRouting" as const, label: `KEY ${engine.id.slice(-1)}` },
+	]);
+
 	return (
 		<table className="routing-matrix">
 			<thead>
@@ -5390,6 +8931,11 @@ const RoutingMatrix: React.FC<RoutingMatrixProps> = ({
 							<div>SEQ {engine.id.slice(-1)}</div>
 						</th>
 					))}
+					{noteSources.map(({ engine, source, label }) => (
+						<th key={`${engine.id}-${source}`} className="rotated-header">
+							<div>{label}</div>
+						</th>
+					))}
 				</tr>
 			</thead>
 			<tbody>
@@ -5426,14 +8972,30 @@ const RoutingMatrix: React.FC<RoutingMatrixProps> = ({
 								/>
 							</td>
 						))}
-						{engineStates.map((engine) => (
-							<td key={`${engine.id}-${dest.key}`}>
+						{engineStates.map((engine) => (
+							<td key={`${engine.id}-${dest.key}`}>
+								<input
+									type="checkbox"
+									checked={engine.routing[dest.key as keyof LFORoutingState]}
+									onChange={(e) =>
+										handleSequencerCheckboxChange(
+											engine.id,
+											dest.key as keyof LFORoutingState,
+											e.target.checked
+										)
+									}
+								/>
+							</td>
+						))}
+						{noteSources.map(({ engine, source }) => (
+							<td key={`${engine.id}-${source}-${dest.key}`}>
 								<input
 									type="checkbox"
-									checked={engine.routing[dest.key as keyof LFORoutingState]}
+									checked={(engine[source] ?? DEFAULT_LFO_ROUTING_STATE)[dest.key as keyof LFORoutingState]}
 									onChange={(e) =>
-										handleSequencerCheckboxChange(
+										handleNoteSourceCheckboxChange(
 											engine.id,
+											source,
 											dest.key as keyof LFORoutingState,
 											e.target.checked
 										)
@@ -6374,10 +9936,18 @@ const App: React.FC = () => {
 	>(new Map());
 	const lfoRoutingBussesRef = useRef<LfoRoutingBusses | null>(null);
 	const samplesRef = useRef<Map<string, AudioBuffer>>(new Map());
+	// Rendered pluck buffers keyed by pitch and settings, oldest evicted first
+	const pluckBuffersRef = useRef<Map<string, AudioBuffer>>(new Map());
+	// Per-engine PeriodicWaves and frame crossfade shapers, rebuilt when the frames change
+	const wavetablesRef = useRef<Map<string, { frames: number[][]; waves: PeriodicWave[]; frameWeights: WaveShaperNode[] }>>(new Map());
 	const activeVoicesRef = useRef<Map<string, ActiveVoice>>(new Map());
 	const activeMonoNotePerEngineRef = useRef<Map<string, {note: number, freq: number, noteId: string}>>(new Map());
 	const lastPlayedNotePerEngineRef = useRef<Map<string, number>>(new Map());
 	const heldNotesPerEngineRef = useRef<Map<string, string[]>>(new Map());
+	const midiVelocitiesRef = useRef<Map<string, number>>(new Map()); // Held MIDI note id -> velocity
+	const arpStatesRef = useRef<Map<string, ArpSchedulerState>>(new Map());
+	// Step-record cursor and the chord being entered, per engine
+	const stepRecordStateRef = useRef<Map<string, { position: number; heldNotes: Set<number>; chord: number[] }>>(new Map());
 	const effectNodesRef = useRef<Map<string, MasterEffectNodes>>(new Map());
     const noiseBuffersRef = useRef<Map<NoiseType, AudioBuffer>>(new Map());
 	const reverbImpulseCache = useRef<Map<string, AudioBuffer>>(new Map());
@@ -6422,7 +9992,15 @@ const App: React.FC = () => {
 	const linkSocketRef = useRef<Socket | null>(null);
 
 	const [isTransportPlaying, setIsTransportPlaying] = useState(false);
+	const [isFillActive, setIsFillActive] = useState(false);
+	const [recordModes, setRecordModes] = useState<{ [engineId: string]: RecordMode }>({});
+	const [stepRecordPositions, setStepRecordPositions] = useState<{ [engineId: string]: number }>({});
+	const [globalSwing, setGlobalSwing] = useState(0);
+	const [chordTrack, setChordTrack] = useState<ChordTrackState>(DEFAULT_CHORD_TRACK);
+	const [currentChordIndex, setCurrentChordIndex] = useState(0);
+	const currentChordIndexRef = useRef(0);
 	const [sequencerCurrentSteps, setSequencerCurrentSteps] = useState<Map<string, number>>(new Map());
+	const [queuedPatterns, setQueuedPatterns] = useState<Map<string, number>>(new Map());
 	const [harmonicTuningSystem, setHarmonicTuningSystem] =
 		useState<TuningSystem>("440_ET");
 	const msegTriggerTimesRef = useRef<Map<string, number>>(new Map()); // msegId -> triggerTime
@@ -6495,6 +10073,12 @@ const App: React.FC = () => {
 		isMorphSynced, 
 		morphSyncRateIndex,
 		linkLatency: 0,
+		isFillActive,
+		globalSwing,
+		recordModes,
+		chordTrack,
+		harmonicTuningSystem,
+		lockState,
 	});
 
 	useEffect(() => {
@@ -6523,6 +10107,12 @@ const App: React.FC = () => {
 			isMorphSynced,
 			morphSyncRateIndex,
 			linkLatency,
+			isFillActive,
+			globalSwing,
+			recordModes,
+			chordTrack,
+			harmonicTuningSystem,
+			lockState,
 		};
 	}, [
 		engines,
@@ -6549,8 +10139,15 @@ const App: React.FC = () => {
 		isMorphSynced,
 		morphSyncRateIndex,
 		linkLatency,
+		isFillActive,
+		globalSwing,
+		recordModes,
+		chordTrack,
+		harmonicTuningSystem,
+		lockState,
 	]);
 
+	const scaleFrequenciesRef = useRef<{ value: number; label: string }[]>([]);
 	const scaleFrequencies = useMemo(() => {
 		if (harmonicTuningSystem === "none") return [];
 		if (harmonicTuningSystem === "solfeggio")
@@ -6592,6 +10189,10 @@ const App: React.FC = () => {
 		return notes;
 	}, [harmonicTuningSystem, scale, transpose]);
 
+	useEffect(() => {
+		scaleFrequenciesRef.current = scaleFrequencies;
+	}, [scaleFrequencies]);
+
 
 	const allNotesOff = useCallback(() => {
 		if (!audioContext) return;
@@ -6609,6 +10210,7 @@ const App: React.FC = () => {
 						node.stop(now + 0.1);
 					} catch (e) { /* ignore */ }
 				});
+				if (voice.drumHit) stopDrumHit(voice.drumHit, now, 0.01);
 				
 				setTimeout(() => {
 					voice.envelopeGain.disconnect();
@@ -6624,12 +10226,13 @@ const App: React.FC = () => {
 		
 		// 3. Reset sequencer visual state
 		setSequencerCurrentSteps(new Map());
+		setQueuedPatterns(new Map());
 		
 		// 4. Reset engine scheduler states
-		engineSchedulerStates.current.forEach((val) => {
-			val.currentStep = 0;
-			val.nextNoteTime = now;
+		engineSchedulerStates.current.forEach((_, engineId) => {
+			engineSchedulerStates.current.set(engineId, createEngineSchedulerState(now));
 		});
+		arpStatesRef.current.clear();
 
 		// 5. Force disconnect all engine audio nodes as a failsafe
 		audioNodesRef.current.forEach((nodes, engineId) => {
@@ -6691,6 +10294,8 @@ const App: React.FC = () => {
 			morphTime,
 			isMorphSynced,
 			morphSyncRateIndex,
+			globalSwing,
+			chordTrack,
 		};
 		historyStack.current.push(JSON.parse(JSON.stringify(currentState)));
 		if (historyStack.current.length > 50) {
@@ -6702,7 +10307,8 @@ const App: React.FC = () => {
 		bpm, scale, transpose, harmonicTuningSystem, voicingMode, glideTime,
 		isGlideSynced, glideSyncRateIndex, isGlobalAutoRandomEnabled,
 		globalAutoRandomInterval, globalAutoRandomMode, isAutoRandomSynced,
-		autoRandomSyncRateIndex, morphTime, isMorphSynced, morphSyncRateIndex
+		autoRandomSyncRateIndex, morphTime, isMorphSynced, morphSyncRateIndex, globalSwing,
+		chordTrack
 	]);
 
 	const handleUndo = useCallback(() => {
@@ -6736,6 +10342,8 @@ const App: React.FC = () => {
 			morphTime,
 			isMorphSynced,
 			morphSyncRateIndex,
+			globalSwing,
+			chordTrack,
 		};
 		futureStack.current.push(JSON.parse(JSON.stringify(currentState)));
 
@@ -6764,13 +10372,16 @@ const App: React.FC = () => {
 			setMorphTime(previousState.morphTime);
 			setIsMorphSynced(previousState.isMorphSynced);
 			setMorphSyncRateIndex(previousState.morphSyncRateIndex);
+			setGlobalSwing(previousState.globalSwing ?? 0);
+			setChordTrack(previousState.chordTrack ?? DEFAULT_CHORD_TRACK);
 		}
 	}, [
 		engines, lfos, msegs, filter1State, filter2State, filterRouting, masterEffects,
 		bpm, scale, transpose, harmonicTuningSystem, voicingMode, glideTime,
 		isGlideSynced, glideSyncRateIndex, isGlobalAutoRandomEnabled,
 		globalAutoRandomInterval, globalAutoRandomMode, isAutoRandomSynced,
-		autoRandomSyncRateIndex, morphTime, isMorphSynced, morphSyncRateIndex
+		autoRandomSyncRateIndex, morphTime, isMorphSynced, morphSyncRateIndex, globalSwing,
+		chordTrack
 	]);
 
 	const handleRedo = useCallback(() => {
@@ -6804,6 +10415,8 @@ const App: React.FC = () => {
 			morphTime,
 			isMorphSynced,
 			morphSyncRateIndex,
+			globalSwing,
+			chordTrack,
 		};
 		historyStack.current.push(JSON.parse(JSON.stringify(currentState)));
 
@@ -6832,13 +10445,16 @@ const App: React.FC = () => {
 			setMorphTime(nextState.morphTime);
 			setIsMorphSynced(nextState.isMorphSynced);
 			setMorphSyncRateIndex(nextState.morphSyncRateIndex);
+			setGlobalSwing(nextState.globalSwing ?? 0);
+			setChordTrack(nextState.chordTrack ?? DEFAULT_CHORD_TRACK);
 		}
 	}, [
 		engines, lfos, filter1State, filter2State, filterRouting, masterEffects,
 		bpm, scale, transpose, harmonicTuningSystem, voicingMode, glideTime,
 		isGlideSynced, glideSyncRateIndex, isGlobalAutoRandomEnabled,
 		globalAutoRandomInterval, globalAutoRandomMode, isAutoRandomSynced,
-		autoRandomSyncRateIndex, morphTime, isMorphSynced, morphSyncRateIndex
+		autoRandomSyncRateIndex, morphTime, isMorphSynced, morphSyncRateIndex, globalSwing,
+		chordTrack
 	]);
 
 	const handleRandomize = useCallback(
@@ -6884,6 +10500,8 @@ const App: React.FC = () => {
 					const synthLocks = locks.synth as { [key: string]: boolean };
 					const noiseLocks = locks.noise as { [key: string]: boolean };
 					const samplerLocks = locks.sampler as { [key: string]: boolean };
+					const fmLocks = (locks.fm ?? {}) as { [key: string]: boolean };
+					const drumLocks = (locks.drum ?? {}) as { [key: string]: boolean };
 					const adsrLocks = locks.adsr as { [key: string]: boolean };
 
 					const shouldChangeRhythm = mode === "rhythmic" || mode === "chaos";
@@ -6906,6 +10524,10 @@ const App: React.FC = () => {
 					if (shouldChangeRhythm && !locks.sequencerRate) {
 						newRate = getRandomElement(sequencerRates);
 					}
+					let newDirection = engine.playbackDirection ?? "forward";
+					if (shouldChangeRhythm && !locks.playbackDirection) {
+						newDirection = getRandomElement(playbackDirections);
+					}
 
 					// --- IMPORTANT: Regenerate sequence if rhythmic params changed ---
 					const newSequence = rotatePattern(
@@ -6927,6 +10549,10 @@ const App: React.FC = () => {
 					const newSynthState: Partial<SynthLayerState> = {};
 					const newNoiseState: Partial<NoiseLayerState> = {};
 					const newSamplerState: Partial<SamplerLayerState> = {};
+					const fm = engine.fm ?? DEFAULT_FM_LAYER;
+					const newFmState: Partial<FMLayerState> = {};
+					const drum = engine.drum ?? DEFAULT_DRUM_LAYER;
+					const newDrumState: Partial<DrumLayerState> = {};
 
 					if (shouldChangeMelody) {
 						let possibleNotes = scaleFrequencies.map((f) => f.value);
@@ -6935,19 +10561,7 @@ const App: React.FC = () => {
 						if (harmonicTuningSystem !== "none" && possibleNotes.length > 0) {
 							const baseOctave = engine.randomBaseOctave || 3;
 							const range = engine.randomOctaveRange || 2;
-							
-							// Calculate min and max frequencies based on C(base) to B(base + range - 1)
-							// C0 is approx 16.35Hz. C3 is approx 130.8Hz. C4 is 261.63Hz.
-							// Formula: f = 440 * 2^((n-69)/12). C4 is 60.
-							// C(octave) note number = (octave + 1) * 12
-							
-							const minNote = (baseOctave + 1) * 12;
-							const maxNote = (baseOctave + 1 + range) * 12 - 1;
-							
-							const minFreq = 440 * Math.pow(2, (minNote - 69) / 12);
-							const maxFreq = 440 * Math.pow(2, (maxNote - 69) / 12);
-							
-							possibleNotes = possibleNotes.filter(f => f >= minFreq && f <= maxFreq);
+							possibleNotes = filterNotesToOctaveRange(possibleNotes, baseOctave, range);
 							
 							// Fallback if filter removes all notes (shouldn't happen with correct logic but safety first)
 							if (possibleNotes.length === 0) {
@@ -6975,14 +10589,25 @@ const App: React.FC = () => {
 							}
 						}
 
-						newMelodicSequence = newMelodicSequence.map(() =>
-							[getRandomElement(possibleNotes)]
-						);
+						if (!locks.melodicSequence) {
+							const markovMelody = engine.markov?.useForRandomize
+								? generateMarkovMelody(
+										{ ...engine, sequencerSteps: newSteps, melodicSequence: newMelodicSequence },
+										scaleFrequencies.map((f) => f.value),
+										harmonicTuningSystem
+								  )
+								: null;
+							newMelodicSequence = markovMelody ?? newMelodicSequence.map(() =>
+								[getRandomElement(possibleNotes)]
+							);
+						}
 
 						if (!synthLocks.frequency)
 							newSynthState.frequency = getRandomElement(possibleNotes);
 						if (!synthLocks.oscillatorType)
 							newSynthState.oscillatorType = getRandomElement(oscillatorTypes);
+						if (!synthLocks.wavetablePosition && engine.synth.wavetable)
+							newSynthState.wavetable = { ...engine.synth.wavetable, position: getRandom(0, 1) };
 						if (!synthLocks.volume) newSynthState.volume = getRandom(0.3, 0.8);
 						if (!noiseLocks.noiseType)
 							newNoiseState.noiseType = getRandomElement(noiseTypes);
@@ -6991,10 +10616,29 @@ const App: React.FC = () => {
 						if (!samplerLocks.grainSize) newSamplerState.grainSize = getRandom(0.01, 0.4);
 						if (!samplerLocks.playbackPosition) newSamplerState.playbackPosition = getRandom(0, 1);
 						if (!samplerLocks.positionJitter) newSamplerState.positionJitter = getRandom(0, 1);
+						// Chaos allows inharmonic ratios for bells and metallic tones
+						if (!fmLocks.ratios) {
+							newFmState.operators = fm.operators.map((op, i) => ({
+								...op,
+								ratio: i === 0 && mode !== "chaos"
+									? getRandomElement([0.5, 1, 2])
+									: mode === "chaos"
+										? Math.round(getRandom(0.5, 12) * 100) / 100
+										: getRandomElement(fmHarmonicRatios),
+							}));
+						}
+						if (!fmLocks.indexes) {
+							newFmState.operators = (newFmState.operators ?? fm.operators).map((op, i) =>
+								i === 0 ? op : { ...op, index: getRandom(0, mode === "chaos" ? 12 : 5) }
+							);
+						}
 					}
 
 					if (shouldChangeRhythm) {
 						if (!samplerLocks.grainDensity) newSamplerState.grainDensity = getRandomInt(5, 80);
+						if (!drumLocks.tone) newDrumState.tone = getRandom(0, 1);
+						if (!drumLocks.decay) newDrumState.decay = getRandom(0.1, 0.9);
+						if (!drumLocks.snap) newDrumState.snap = getRandom(0, 1);
 					}
 
 					// Chaos mode specific changes
@@ -7004,6 +10648,13 @@ const App: React.FC = () => {
 						if (!samplerLocks.enabled) newSamplerState.enabled = getRandomBool(0.3);
 						if (!samplerLocks.enabled) newSamplerState.enabled = getRandomBool(0.3);
 						if (!samplerLocks.granularModeEnabled) newSamplerState.granularModeEnabled = getRandomBool();
+						if (!fmLocks.enabled) newFmState.enabled = getRandomBool(0.3);
+						if (!drumLocks.enabled) newDrumState.enabled = getRandomBool(0.3);
+						if (!drumLocks.model) newDrumState.model = getRandomElement(drumModels);
+						if (!fmLocks.algorithm) {
+							newFmState.algorithm = getRandomElement(fmAlgorithms);
+							newFmState.operatorCount = getRandomInt(2, 4);
+						}
 						
 						// Randomize Routing
 						if (!locks.filterDestination) {
@@ -7035,20 +10686,53 @@ const App: React.FC = () => {
 					else if (mode === "chaos")
 						setAdsr([0.001, 3.0], [0.05, 3.0], [0.0, 1.0], [0.05, 2.0]);
 
-					return {
+					const isTuring = engine.sequencerMode === "turing";
+					const randomizedEngine: EngineState = {
 						...engine,
 						sequencerSteps: newSteps,
 						sequencerPulses: newPulses,
 						sequencerRotate: newRotate,
 						sequencerRate: newRate,
-						sequence: newSequence,
+						playbackDirection: newDirection,
+						sequence: isTuring && !shouldChangeRhythm ? engine.sequence : newSequence,
+						stepParams: newSteps !== engine.sequencerSteps
+							? resizeStepParams(engine.stepParams, newSteps)
+							: engine.stepParams,
 						synth: { ...engine.synth, ...newSynthState },
 						noise: { ...engine.noise, ...newNoiseState },
 						sampler: { ...engine.sampler, ...newSamplerState },
+						fm: { ...fm, ...newFmState },
+						drum: { ...drum, ...newDrumState },
 						adsr: { ...engine.adsr, ...newAdsrState },
 						routing: (mode === "chaos" && scope === "global") ? randomizeRouting() : engine.routing,
 						melodicSequence: newMelodicSequence,
 					};
+
+					// Automaton engines pick a new rule and restart from their seed
+					if (engine.sequencerMode === "automaton" && shouldChangeRhythm) {
+						const automaton = engine.automaton ?? createAutomatonState(newSteps);
+						return resetAutomaton({
+							...randomizedEngine,
+							automaton: {
+								...automaton,
+								rule: locks.automatonRule ? automaton.rule : getRandomElement(automatonRules),
+							},
+						});
+					}
+					if (engine.sequencerMode === "automaton") {
+						randomizedEngine.sequence = engine.sequence;
+					}
+
+					// Turing engines regenerate from a fresh register instead of the Euclidean pattern
+					if (isTuring && shouldChangeRhythm) {
+						const turing = engine.turing ?? createTuringState();
+						return applyTuringPattern(
+							{ ...randomizedEngine, turing: { ...turing, register: createTuringState().register } },
+							scaleFrequencies.map((f) => f.value),
+							!!locks.melodicSequence
+						);
+					}
+					return randomizedEngine;
 				});
 
 				const newLfos = lfos.map((lfo): LFOState => {
@@ -7416,19 +11100,10 @@ const App: React.FC = () => {
 
 					latestStateRef.current.engines.forEach(engine => {
 						const sch = engineSchedulerStates.current.get(engine.id);
-						if (sch) {
+						// Only forward playback has a fixed step-to-beat relation to correct against
+						if (sch && (engine.playbackDirection ?? "forward") === "forward") {
 							// Calculate beats per step for this engine
-							let beatsPerStep = 0.25; // Default 1/16
-							const rateStr = engine.sequencerRate;
-							
-							if (rateStr.endsWith("d")) {
-								// Dotted
-								const baseDenom = parseInt(rateStr.replace("d", "").split("/")[1]);
-								beatsPerStep = (4 / baseDenom) * 1.5;
-							} else {
-								const denom = parseInt(rateStr.split("/")[1]);
-								beatsPerStep = 4 / denom;
-							}
+							const beatsPerStep = getEngineBeatsPerStep(engine);
 
 							// Calculate target step using Local Beat (relative to start)
 							// We must project the Link beat to the time of the *next scheduled note* 
@@ -7609,14 +11284,23 @@ const App: React.FC = () => {
 					midiInputGain: context.createGain(),
 					sequencerModSource: context.createConstantSource(),
 					sequencerModGate: context.createGain(),
+					velocityModSource: context.createConstantSource(),
+					keyModSource: context.createConstantSource(),
 					finalOutput: context.createGain(),
 					analyser: context.createAnalyser(),
+					wavetablePosition: context.createConstantSource(),
 				};
 
 				engineNodes.sequencerModSource.offset.value = 1.0;
 				engineNodes.sequencerModSource.connect(engineNodes.sequencerModGate);
 				engineNodes.sequencerModSource.start();
 				engineNodes.sequencerModGate.gain.value = 0; // Gated by sequencer
+				engineNodes.velocityModSource.offset.value = 0;
+				engineNodes.velocityModSource.start();
+				engineNodes.keyModSource.offset.value = 0;
+				engineNodes.keyModSource.start();
+				engineNodes.wavetablePosition.offset.value = engine.synth.wavetable?.position ?? 0;
+				engineNodes.wavetablePosition.start();
 				
 				engineNodes.synth.volumeGain.connect(engineNodes.engineMixer);
 				engineNodes.noise.volumeGain.connect(engineNodes.engineMixer);
@@ -7631,17 +11315,24 @@ const App: React.FC = () => {
                 const modBusses: EngineModBusses = {
                     vol: context.createGain(),
                     synthFreq: context.createGain(),
+                    synthDetune: context.createGain(),
+                    syncRatio: context.createGain(),
                     samplerTranspose: context.createGain(),
                     grainSize: context.createGain(),
                     grainDensity: context.createGain(),
                     grainPosition: context.createGain(),
                     grainJitter: context.createGain(),
+                    wavetablePosition: context.createGain(),
                 };
 				// Scale modulation busses for audible range
 				modBusses.synthFreq.gain.value = 1000; 
+				modBusses.synthDetune.gain.value = 50; // cents
+				modBusses.syncRatio.gain.value = 4 / HARD_SYNC_MAX_RATIO; // +/- 4 ratio steps
 				modBusses.grainDensity.gain.value = 50;
+				modBusses.wavetablePosition.gain.value = 0.5;
 
                 modBusses.vol.connect(engineNodes.finalOutput.gain);
+                modBusses.wavetablePosition.connect(engineNodes.wavetablePosition.offset);
                 // The other busses will be connected to specific AudioParams as needed
                 engineModBussesMap.set(engine.id, modBusses);
 			});
@@ -7778,7 +11469,7 @@ const App: React.FC = () => {
 									if (prevParts.length >= 4) {
 										const prevNote = parseInt(prevParts[3]);
 										// Re-trigger previous note
-										noteOn(engineId, prevNoteId, prevNote, time);
+										noteOn(engineId, prevNoteId, prevNote, time, getMidiNoteFrequency(prevNote), midiVelocitiesRef.current.get(prevNoteId) ?? 1);
 										return; // noteOn will handle the rest
 									}
 								}
@@ -7811,6 +11502,15 @@ const App: React.FC = () => {
 		
 		envelopeGain.gain.cancelScheduledValues(scheduledTime);
 		envelopeGain.gain.setTargetAtTime(0.0001, scheduledTime, release / 5 + 0.001);
+		voice.operatorEnvelopes?.forEach(({ gain, release: opRelease }) => {
+			gain.cancelScheduledValues(scheduledTime);
+			gain.setTargetAtTime(0, scheduledTime, opRelease / 5 + 0.001);
+		});
+		if (voice.voiceFilter) {
+			const { frequency, base, release: filterRelease } = voice.voiceFilter;
+			frequency.cancelScheduledValues(scheduledTime);
+			frequency.setTargetAtTime(base, scheduledTime, filterRelease / 5 + 0.001);
+		}
 
 		const stopTime = scheduledTime + release * 5; 
 		sourceNodes.forEach(node => {
@@ -7821,6 +11521,7 @@ const App: React.FC = () => {
             }
         });
 		
+		const cleanupTime = Math.max(stopTime, voice.drumHit?.endTime ?? 0);
 		const timeoutId = window.setTimeout(() => {
 			envelopeGain.disconnect();
 			// Fix: Only delete if the voice in the map is STILL this specific voice object.
@@ -7828,13 +11529,78 @@ const App: React.FC = () => {
 			if (activeVoicesRef.current.get(noteId) === voice) {
 				activeVoicesRef.current.delete(noteId);
 			}
-		}, (stopTime - audioContext.currentTime) * 1000 + 100);
+		}, (cleanupTime - audioContext.currentTime) * 1000 + 100);
         
-        activeVoicesRef.current.set(noteId, {...voice, timeoutId});
+        activeVoicesRef.current.set(noteId, {...voice, timeoutId, releaseTime: scheduledTime});
+
+	}, [audioContext]);
 
+	// Short fade for voices taken by the polyphony limit, instead of a full release
+	const stealVoice = useCallback((noteId: string, time: number) => {
+		const voice = activeVoicesRef.current.get(noteId);
+		if (!audioContext || !voice) return;
+		if (voice.timeoutId) clearTimeout(voice.timeoutId);
+		activeVoicesRef.current.delete(noteId);
+
+		const stopTime = time + VOICE_STEAL_FADE;
+		voice.envelopeGain.gain.cancelScheduledValues(time);
+		voice.envelopeGain.gain.setTargetAtTime(0, time, VOICE_STEAL_FADE / 4);
+		voice.sourceNodes.forEach(node => {
+			try {
+				node.stop(stopTime);
+			} catch (e) {
+				// Ignore errors if node is already stopped
+			}
+		});
+		if (voice.drumHit) stopDrumHit(voice.drumHit, time, VOICE_STEAL_FADE);
+		window.setTimeout(() => voice.envelopeGain.disconnect(), (stopTime - audioContext.currentTime) * 1000 + 100);
 	}, [audioContext]);
 	
-	const noteOn = useCallback((engineId: string, noteId: string, midiNote: number, time: number, explicitFrequency?: number) => {
+	// Builds (or reuses) the PeriodicWaves and crossfade shapers for an engine's wavetable
+	const getEngineWavetable = useCallback((engine: EngineState) => {
+		const engineNodes = audioNodesRef.current.get(engine.id);
+		const frames = engine.synth.wavetable?.frames;
+		if (!audioContext || !engineNodes || !frames || frames.length === 0) return null;
+
+		const cached = wavetablesRef.current.get(engine.id);
+		if (cached && cached.frames === frames) return cached;
+		cached?.frameWeights.forEach(shaper => {
+			try { engineNodes.wavetablePosition.disconnect(shaper); } catch(e) {}
+		});
+
+		const built = {
+			frames,
+			waves: frames.map(frame => createPeriodicWaveFromTable(audioContext, frame)),
+			frameWeights: frames.map((_, i) => {
+				const shaper = audioContext.createWaveShaper();
+				shaper.curve = createWavetableWeightCurve(i, frames.length);
+				engineNodes.wavetablePosition.connect(shaper);
+				return shaper;
+			}),
+		};
+		wavetablesRef.current.set(engine.id, built);
+		return built;
+	}, [audioContext]);
+
+	const getPluckBuffer = useCallback((engine: EngineState, frequency: number) => {
+		if (!audioContext) return null;
+		const pluck = engine.pluck ?? DEFAULT_PLUCK_LAYER;
+		const noiseType = pluck.exciter === "noise" ? engine.noise.noiseType : null;
+		const key = [frequency.toFixed(2), pluck.damping, pluck.brightness, pluck.decay, noiseType ?? "burst"].join("|");
+		const cache = pluckBuffersRef.current;
+		const cached = cache.get(key);
+		if (cached) return cached;
+
+		const excitation = noiseType ? noiseBuffersRef.current.get(noiseType)?.getChannelData(0) : undefined;
+		const samples = renderKarplusStrong(audioContext.sampleRate, frequency, pluck, excitation);
+		const buffer = audioContext.createBuffer(1, samples.length, audioContext.sampleRate);
+		buffer.copyToChannel(samples, 0);
+		if (cache.size >= 64) cache.delete(cache.keys().next().value!);
+		cache.set(key, buffer);
+		return buffer;
+	}, [audioContext]);
+
+	const noteOn = useCallback((engineId: string, noteId: string, midiNote: number, time: number, explicitFrequency?: number, velocity: number = 1, stepParams?: SequencerStepParams) => {
 
 		if (!audioContext) return;
 
@@ -7886,6 +11652,11 @@ const App: React.FC = () => {
 		// Unmute engine mixer (in case it was muted by Panic)
 		engineNodes.engineMixer.gain.cancelScheduledValues(now);
 		engineNodes.engineMixer.gain.setValueAtTime(1, now);
+
+		// Velocity and key mod sources follow the most recent note
+		engineNodes.velocityModSource.offset.setValueAtTime(velocity, scheduledTime);
+		engineNodes.keyModSource.offset.setValueAtTime(Math.max(0, Math.min(1, midiNote / 127)), scheduledTime);
+		const ampVelocity = 1 - (engine.velocityAmount ?? 1) * (1 - velocity);
 	
 		// --- Voicing and Glide Logic ---
 		let startFrequency: number | undefined;
@@ -7924,37 +11695,250 @@ const App: React.FC = () => {
 	
 		// Clean up any previous voice with the same ID
 		noteOff(noteId, scheduledTime, true);
+
+		// Make room under the engine's polyphony limit
+		const maxVoices = engine.maxVoices ?? DEFAULT_MAX_VOICES;
+		const engineVoices = [...activeVoicesRef.current.values()].filter(voice => voice.engineId === engineId && voice.noteId !== noteId);
+		while (engineVoices.length >= maxVoices) {
+			const victim = pickVoiceToSteal(engineVoices, engine.voiceStealPolicy ?? "oldest", engine.adsr, scheduledTime);
+			if (!victim) break;
+			stealVoice(victim.noteId, scheduledTime);
+			engineVoices.splice(engineVoices.indexOf(victim), 1);
+		}
 	
 		const { attack, decay, sustain } = engine.adsr;
 		const envelopeGain = audioContext.createGain();
-		envelopeGain.connect(engineNodes.engineMixer);
 		
 		const sourceNodes: (AudioBufferSourceNode | OscillatorNode)[] = [];
-		let newVoice: ActiveVoice = { noteId, engineId, sourceNodes, envelopeGain, note: midiNote }; // Save the midiNote
+		const pitchRatios = new Map<OscillatorNode, number>();
+		let newVoice: ActiveVoice = { noteId, engineId, sourceNodes, envelopeGain, note: midiNote, pitchRatios, startTime: scheduledTime, peakLevel: ampVelocity }; // Save the midiNote
+
+		const voiceFilter = engine.voiceFilter;
+		if (voiceFilter?.enabled) {
+			const clampCutoff = (frequency: number) => Math.max(20, Math.min(audioContext.sampleRate / 2 - 100, frequency));
+			const { attack: filterAttack, decay: filterDecay, sustain: filterSustain, release: filterRelease } = voiceFilter.envelope;
+			const base = clampCutoff(voiceFilter.cutoff * Math.pow(targetFrequency / VOICE_FILTER_KEY_CENTER, voiceFilter.keyTracking));
+			const peak = clampCutoff(base * Math.pow(2, voiceFilter.envAmount));
+			const sustainCutoff = clampCutoff(base * Math.pow(2, voiceFilter.envAmount * filterSustain));
+
+			const filter = audioContext.createBiquadFilter();
+			filter.type = voiceFilter.type;
+			filter.Q.value = voiceFilter.resonance;
+			filter.frequency.setValueAtTime(base, scheduledTime);
+			filter.frequency.exponentialRampToValueAtTime(peak, scheduledTime + Math.max(0.001, filterAttack));
+			filter.frequency.setTargetAtTime(sustainCutoff, scheduledTime + filterAttack, filterDecay / 3 + 0.001);
+			envelopeGain.connect(filter).connect(engineNodes.engineMixer);
+			newVoice.voiceFilter = { frequency: filter.frequency, base, release: filterRelease };
+		} else {
+			envelopeGain.connect(engineNodes.engineMixer);
+		}
 		
 		// --- Layer Logic ---
+		const glideTimeSec = calculateTimeFromSync(bpm, isGlideSynced, glideSyncRateIndex, syncRates, glideTime) / 1000;
+		// Legato glides carry on from the previous pitch instead of sweeping again
+		const pitchEnvelope = engine.pitchEnvelope;
+		const pitchSweep = pitchEnvelope && pitchEnvelope.amount !== 0 && !(startFrequency && glideTimeSec > 0)
+			? createPitchSweep(pitchEnvelope)
+			: null;
+		const pitchSweepDuration = Math.max(0.005, pitchEnvelope?.decay ?? 0);
 		if (engine.synth.enabled && engine.synth.volume > 0) {
-			const osc = audioContext.createOscillator();
-			osc.type = engine.synth.oscillatorType;
 			const modBus = lfoRoutingBussesRef.current?.engineModBusses.get(engineId)?.synthFreq;
-			if (modBus) modBus.connect(osc.frequency);
-	
-			const glideTimeSec = calculateTimeFromSync(bpm, isGlideSynced, glideSyncRateIndex, syncRates, glideTime) / 1000;
-	
-			if (startFrequency && glideTimeSec > 0) {
-				osc.frequency.setValueAtTime(startFrequency, scheduledTime);
-				osc.frequency.linearRampToValueAtTime(targetFrequency, scheduledTime + glideTimeSec);
-			} else {
-				osc.frequency.setValueAtTime(targetFrequency, scheduledTime);
-			}
-	
+			const detuneBus = lfoRoutingBussesRef.current?.engineModBusses.get(engineId)?.synthDetune;
+			const unisonVoices = Math.max(1, Math.min(8, engine.synth.unisonVoices ?? 1));
+			const unisonDetune = engine.synth.unisonDetune ?? 0;
+			const unisonSpread = engine.synth.unisonSpread ?? 0;
 			const synthGain = audioContext.createGain();
-			synthGain.gain.value = engine.synth.volume;
-			osc.connect(synthGain).connect(envelopeGain);
-			osc.start(scheduledTime);
-			sourceNodes.push(osc);
+			synthGain.gain.value = engine.synth.volume / Math.sqrt(unisonVoices);
+			synthGain.connect(envelopeGain);
+			const wavetable = engine.synth.oscillatorType === "wavetable" ? getEngineWavetable(engine) : null;
+
+			for (let u = 0; u < unisonVoices; u++) {
+				// -1 to 1 across the stack, so detune and pan fan out from the centre
+				const stackPosition = unisonVoices > 1 ? (u / (unisonVoices - 1)) * 2 - 1 : 0;
+				const unisonOutput = audioContext.createStereoPanner();
+				unisonOutput.pan.value = stackPosition * unisonSpread;
+				unisonOutput.connect(synthGain);
+				let unisonInput: AudioNode = unisonOutput;
+				if (engine.synth.randomPhase) {
+					// A delay of up to one period shifts the phase without a custom wave per voice
+					const phaseDelay = audioContext.createDelay(0.1);
+					phaseDelay.delayTime.value = Math.min(0.1, Math.random() / targetFrequency);
+					phaseDelay.connect(unisonOutput);
+					unisonInput = phaseDelay;
+				}
+				let detuneMod: GainNode | null = null;
+				if (detuneBus && stackPosition !== 0) {
+					detuneMod = audioContext.createGain();
+					detuneMod.gain.value = stackPosition;
+					detuneBus.connect(detuneMod);
+				}
+
+				const createSynthOscillator = () => {
+					const osc = audioContext.createOscillator();
+					if (modBus) modBus.connect(osc.frequency);
+					if (startFrequency && glideTimeSec > 0) {
+						osc.frequency.setValueAtTime(startFrequency, scheduledTime);
+						osc.frequency.linearRampToValueAtTime(targetFrequency, scheduledTime + glideTimeSec);
+					} else {
+						osc.frequency.setValueAtTime(targetFrequency, scheduledTime);
+					}
+					osc.detune.value = stackPosition * unisonDetune;
+					if (detuneMod) {
+						const mod = detuneMod;
+						mod.connect(osc.detune);
+						osc.addEventListener("ended", () => {
+							try { detuneBus?.disconnect(mod); } catch(e) {}
+						});
+					}
+					osc.start(scheduledTime);
+					sourceNodes.push(osc);
+					return osc;
+				};
+
+				if (wavetable) {
+					// One oscillator per frame, crossfaded by the engine's shared position signal
+					wavetable.waves.forEach((wave, i) => {
+						const osc = createSynthOscillator();
+						osc.setPeriodicWave(wave);
+						const frameGain = audioContext.createGain();
+						frameGain.gain.value = 0;
+						const frameWeight = wavetable.frameWeights[i];
+						frameWeight.connect(frameGain.gain);
+						osc.onended = () => {
+							try { frameWeight.disconnect(frameGain.gain); } catch(e) {}
+						};
+						osc.connect(frameGain).connect(unisonInput);
+					});
+				} else {
+					const osc = createSynthOscillator();
+					osc.type = engine.synth.oscillatorType === "wavetable" ? "sine" : engine.synth.oscillatorType;
+					osc.connect(unisonInput);
+				}
+			}
+
+			// Runs at a fixed multiple of the note, following glide and the frequency mod bus
+			const createRatioOscillator = (ratio: number) => {
+				const osc = audioContext.createOscillator();
+				if (modBus) {
+					const scaledMod = audioContext.createGain();
+					scaledMod.gain.value = ratio;
+					modBus.connect(scaledMod).connect(osc.frequency);
+					osc.addEventListener("ended", () => {
+						try { modBus.disconnect(scaledMod); } catch(e) {}
+					});
+				}
+				if (startFrequency && glideTimeSec > 0) {
+					osc.frequency.setValueAtTime(startFrequency * ratio, scheduledTime);
+					osc.frequency.linearRampToValueAtTime(targetFrequency * ratio, scheduledTime + glideTimeSec);
+				} else {
+					osc.frequency.setValueAtTime(targetFrequency * ratio, scheduledTime);
+				}
+				osc.start(scheduledTime);
+				sourceNodes.push(osc);
+				pitchRatios.set(osc, ratio);
+				return osc;
+			};
+
+			const sub = engine.synth.subOscillator;
+			if (sub?.enabled && sub.level > 0) {
+				const subOsc = createRatioOscillator(Math.pow(2, -sub.octave));
+				subOsc.type = sub.shape;
+				const subGain = audioContext.createGain();
+				subGain.gain.value = sub.level * engine.synth.volume;
+				subOsc.connect(subGain).connect(envelopeGain);
+			}
+
+			const sync = engine.synth.syncOscillator;
+			if (sync?.enabled && sync.level > 0) {
+				// A master ramp at the note frequency is scaled by the ratio and shaped into the slave wave,
+				// so the slave restarts on every master cycle while the ratio stays an AudioParam
+				const master = createRatioOscillator(1);
+				master.type = "sawtooth";
+				const masterPhase = audioContext.createWaveShaper();
+				masterPhase.curve = SAW_TO_PHASE_CURVE;
+				const ratioGain = audioContext.createGain();
+				ratioGain.gain.value = Math.max(1, Math.min(HARD_SYNC_MAX_RATIO, sync.ratio)) / HARD_SYNC_MAX_RATIO;
+				const ratioBus = lfoRoutingBussesRef.current?.engineModBusses.get(engineId)?.syncRatio;
+				if (ratioBus) {
+					ratioBus.connect(ratioGain.gain);
+					master.addEventListener("ended", () => {
+						try { ratioBus.disconnect(ratioGain.gain); } catch(e) {}
+					});
+				}
+				const slave = audioContext.createWaveShaper();
+				slave.curve = getHardSyncCurve(sync.shape);
+				slave.oversample = "4x";
+				const syncGain = audioContext.createGain();
+				syncGain.gain.value = sync.level * engine.synth.volume;
+				master.connect(masterPhase).connect(ratioGain).connect(slave).connect(syncGain).connect(envelopeGain);
+			}
+		}
+
+		const fm = engine.fm;
+		if (fm?.enabled && fm.volume > 0) {
+			const fmGain = audioContext.createGain();
+			fmGain.gain.value = fm.volume;
+			fmGain.connect(envelopeGain);
+			const operatorEnvelopes: { gain: AudioParam; release: number }[] = [];
+
+			const operators = fm.operators.slice(0, Math.max(2, fm.operatorCount)).map((op, i) => {
+				const osc = audioContext.createOscillator();
+				if (startFrequency && glideTimeSec > 0) {
+					osc.frequency.setValueAtTime(startFrequency * op.ratio, scheduledTime);
+					osc.frequency.linearRampToValueAtTime(targetFrequency * op.ratio, scheduledTime + glideTimeSec);
+				} else {
+					osc.frequency.setValueAtTime(targetFrequency * op.ratio, scheduledTime);
+				}
+				// The carrier envelope shapes its level, a modulator's swings the carrier by index * its own frequency
+				const peak = i === 0 ? 1 : op.index * targetFrequency * op.ratio;
+				const opEnvelope = audioContext.createGain();
+				opEnvelope.gain.setValueAtTime(0, scheduledTime);
+				opEnvelope.gain.linearRampToValueAtTime(peak, scheduledTime + op.attack);
+				opEnvelope.gain.setTargetAtTime(peak * op.sustain, scheduledTime + op.attack, op.decay / 3 + 0.001);
+				osc.connect(opEnvelope);
+				osc.start(scheduledTime);
+				sourceNodes.push(osc);
+				pitchRatios.set(osc, op.ratio);
+				operatorEnvelopes.push({ gain: opEnvelope.gain, release: op.release });
+				return { osc, output: opEnvelope };
+			});
+			operators.forEach(({ output }, i) => {
+				if (i === 0) output.connect(fmGain);
+				else output.connect(operators[fm.algorithm === "stack" ? i - 1 : 0].osc.frequency);
+			});
+			newVoice = { ...newVoice, operatorEnvelopes };
 		}
 	
+		const drum = engine.drum;
+		const drumNoise = noiseBuffersRef.current.get("white");
+		if (drum?.enabled && drum.volume > 0 && drumNoise) {
+			// Drum hits skip the ADSR and noteOff, their envelopes are part of the model
+			const drumGain = audioContext.createGain();
+			drumGain.gain.value = drum.volume * ampVelocity;
+			drumGain.connect(engineNodes.engineMixer);
+			const drumHit = scheduleDrumHit(audioContext, drumGain, scheduledTime, {
+				...drum,
+				model: stepParams?.drumModel ?? drum.model,
+				tone: stepParams?.drumTone ?? drum.tone,
+				decay: stepParams?.drumDecay ?? drum.decay,
+			}, drumNoise);
+			newVoice = { ...newVoice, drumHit };
+		}
+
+		const pluck = engine.pluck;
+		if (pluck?.enabled && pluck.volume > 0) {
+			const pluckBuffer = getPluckBuffer(engine, targetFrequency);
+			if (pluckBuffer) {
+				const pluckSource = audioContext.createBufferSource();
+				pluckSource.buffer = pluckBuffer;
+				const pluckGain = audioContext.createGain();
+				pluckGain.gain.value = pluck.volume;
+				pluckSource.connect(pluckGain).connect(envelopeGain);
+				pluckSource.start(scheduledTime);
+				sourceNodes.push(pluckSource);
+			}
+		}
+
 		if (engine.noise.enabled && engine.noise.volume > 0 && noiseBuffersRef.current.has(engine.noise.noiseType)) {
 			 const noiseSource = audioContext.createBufferSource();
 			 noiseSource.buffer = noiseBuffersRef.current.get(engine.noise.noiseType)!;
@@ -7987,7 +11971,15 @@ const App: React.FC = () => {
 					 sampleSource.buffer = samplesRef.current.get(engine.id)!;
 					 // Assuming original pitch of sample is C4 (MIDI note 60)
 					 const playbackRate = Math.pow(2, (midiNote - 60 + engine.sampler.transpose) / 12);
-					 sampleSource.playbackRate.setValueAtTime(playbackRate, scheduledTime);
+					 if (pitchSweep) {
+						 sampleSource.playbackRate.setValueCurveAtTime(
+							 pitchSweep.map(semitones => playbackRate * Math.pow(2, semitones / 12)),
+							 scheduledTime,
+							 pitchSweepDuration
+						 );
+					 } else {
+						 sampleSource.playbackRate.setValueAtTime(playbackRate, scheduledTime);
+					 }
 					 sampleSource.connect(samplerGain);
 					 sampleSource.start(scheduledTime);
 					 sourceNodes.push(sampleSource);
@@ -7997,25 +11989,117 @@ const App: React.FC = () => {
 			}
 		}
 
+		// Detune carries the sweep so it stacks on top of glide and the frequency mod bus
+		if (pitchSweep) {
+			sourceNodes.forEach(node => {
+				if (!(node instanceof OscillatorNode)) return;
+				const baseCents = node.detune.value;
+				node.detune.setValueCurveAtTime(pitchSweep.map(semitones => baseCents + semitones * 100), scheduledTime, pitchSweepDuration);
+			});
+		}
+
 		envelopeGain.gain.cancelScheduledValues(scheduledTime);
 		envelopeGain.gain.setValueAtTime(0.0001, scheduledTime);
-		envelopeGain.gain.linearRampToValueAtTime(1, scheduledTime + attack);
-		envelopeGain.gain.setTargetAtTime(sustain, scheduledTime + attack, decay / 3 + 0.001); // decay to sustain level
+		envelopeGain.gain.linearRampToValueAtTime(ampVelocity, scheduledTime + attack);
+		envelopeGain.gain.setTargetAtTime(sustain * ampVelocity, scheduledTime + attack, decay / 3 + 0.001); // decay to sustain level
 
 		activeVoicesRef.current.set(noteId, newVoice);
 
-	}, [audioContext, noteOff, harmonicTuningSystem, syncRates]);
+	}, [audioContext, noteOff, stealVoice, harmonicTuningSystem, syncRates, getEngineWavetable, getPluckBuffer]);
 
     // High-Precision Web Audio Sequencer
-	const advanceSequencer = useCallback((time: number) => {
+	// Advances a single engine when engineId is given, otherwise every engine
+	const advanceSequencer = useCallback((time: number, engineId?: string) => {
 		if (isRandomizingRef.current) return;
 
 		latestStateRef.current.engines.forEach(engine => {
+			if (engineId && engine.id !== engineId) return;
 			// if (!engine.sequencerEnabled) return; // REMOVED: Allow running in background
 			const engineSch = engineSchedulerStates.current.get(engine.id)!;
 			const engineNodes = audioNodesRef.current.get(engine.id);
 			if (!engineNodes) return;
 
+			// The first step comes from the playback direction (reverse starts on the last
+			// step), so the wrap into it isn't counted as a completed loop
+			if (engineSch.stepsPlayed === 0 && engineSch.currentStep >= 0) {
+				engineSch.currentStep = getNextSequencerStep(engine.playbackDirection ?? "forward", -1, engine.sequencerSteps, true, 0).step;
+			}
+
+			// --- Pattern queue and chain, evaluated on the first step of each bar ---
+			const bar = Math.floor(engineSch.beatPosition / BEATS_PER_BAR + 1e-6);
+			if (engineSch.currentStep >= 0 && bar !== engineSch.currentBar) {
+				const isFirstBar = engineSch.currentBar < 0;
+				engineSch.currentBar = bar;
+				let targetPattern = engineSch.queuedPatternIndex;
+				if (targetPattern !== null) {
+					engineSch.queuedPatternIndex = null;
+					setQueuedPatterns(prev => {
+						const next = new Map(prev);
+						next.delete(engine.id);
+						return next;
+					});
+				}
+
+				const chain = engine.patternChain || [];
+				if (engine.isChainEnabled && chain.length > 0) {
+					engineSch.chainBarCount++;
+					const entry = chain[engineSch.chainIndex];
+					if (!entry || engineSch.chainBarCount >= entry.bars) {
+						engineSch.chainIndex = (engineSch.chainIndex + 1) % chain.length;
+						engineSch.chainBarCount = 0;
+						targetPattern = chain[engineSch.chainIndex].pattern;
+					}
+				}
+
+				// The automaton moves on one generation per bar (the first bar plays the current row)
+				if (engine.sequencerMode === "automaton" && !isFirstBar) {
+					const automatonEngine = advanceAutomaton(engine);
+					latestStateRef.current.engines = latestStateRef.current.engines.map(e => e.id === engine.id ? automatonEngine : e);
+					setEngines(prev => prev.map(e => e.id === automatonEngine.id
+						? { ...e, automaton: automatonEngine.automaton, sequence: automatonEngine.sequence }
+						: e));
+					engine = automatonEngine;
+				}
+
+				if (targetPattern !== null && targetPattern !== (engine.activePatternIndex ?? 0)) {
+					const switchedEngine = switchEnginePattern(engine, targetPattern);
+					const patternIndex = targetPattern;
+					// Update the ref right away so the rest of this pass sees the new pattern
+					latestStateRef.current.engines = latestStateRef.current.engines.map(e => e.id === engine.id ? switchedEngine : e);
+					setEngines(prev => prev.map(e => e.id === engine.id ? switchEnginePattern(e, patternIndex) : e));
+					engine = switchedEngine;
+
+					// The new pattern starts from its first step
+					const direction = engine.playbackDirection ?? "forward";
+					engineSch.currentStep = getNextSequencerStep(direction, -1, engine.sequencerSteps, true, 0).step;
+					engineSch.isMovingForward = true;
+				}
+			}
+
+			// Turing mode clocks its shift register through the next cycle as each one starts
+			if (engine.sequencerMode === "turing" && engineSch.isCycleStart && engineSch.currentStep >= 0) {
+				const isMelodyLocked = !!latestStateRef.current.lockState.engines[engine.id]?.melodicSequence;
+				const turingEngine = applyTuringPattern(engine, scaleFrequenciesRef.current.map(f => f.value), isMelodyLocked);
+				latestStateRef.current.engines = latestStateRef.current.engines.map(e => e.id === engine.id ? turingEngine : e);
+				setEngines(prev => prev.map(e => e.id === turingEngine.id
+					? {
+						...e,
+						turing: turingEngine.turing,
+						sequence: turingEngine.sequence,
+						melodicSequence: turingEngine.melodicSequence,
+						useMelodicSequence: turingEngine.useMelodicSequence,
+					}
+					: e));
+				engine = turingEngine;
+			}
+
+			// A reset link from another engine restarts the pattern from its first step
+			if (engineSch.pendingResetTime !== null && time >= engineSch.pendingResetTime - 0.001) {
+				engineSch.pendingResetTime = null;
+				engineSch.currentStep = getNextSequencerStep(engine.playbackDirection ?? "forward", -1, engine.sequencerSteps, true, 0).step;
+				engineSch.isMovingForward = true;
+			}
+
 			const currentStepForNote = engineSch.currentStep;
 			
 			// console.log(`[Seq] ${engine.id} Step: ${currentStepForNote} Rotate: ${engine.sequencerRotate}`);
@@ -8023,49 +12107,170 @@ const App: React.FC = () => {
 			// The sequence is already rotated in the state (handleEngineUpdate rotates it).
 			// So we just read directly from the current step.
 			const stepIndexToRead = currentStepForNote % engine.sequencerSteps;
+
+			const stepParams = getStepParams(engine, stepIndexToRead);
+			const stepVelocity = getStepVelocity(stepParams);
+
+			// Chord track: the chord for this step's bar re-maps every note the engine plays
+			const { chordTrack, scale, transpose, harmonicTuningSystem } = latestStateRef.current;
+			const chordIndex = chordTrack.enabled ? getChordIndexAtBeat(chordTrack.chords, engineSch.beatPosition) : -1;
+			const chord = chordIndex >= 0 ? chordTrack.chords[chordIndex] : null;
+			const harmonize = (target: EngineState, freq: number) =>
+				chord && target.followChords !== false
+					? harmonizeFrequency(freq, chord, chordTrack.mode, scale, transpose, harmonicTuningSystem)
+					: freq;
+			if (chordIndex >= 0 && chordIndex !== currentChordIndexRef.current) {
+				currentChordIndexRef.current = chordIndex;
+				setTimeout(() => setCurrentChordIndex(chordIndex), Math.max(0, (time - (audioContext?.currentTime || 0)) * 1000));
+			}
+
+			// Resolve probability and trig condition for active steps
+			let isStepTriggered = engine.sequence[stepIndexToRead] === 1;
+			if (isStepTriggered) {
+				const { probability, condition } = stepParams;
+				const conditionMet = evaluateTrigCondition(condition, engineSch.loopCount, engineSch.lastConditionResult, latestStateRef.current.isFillActive);
+				isStepTriggered = conditionMet && Math.random() < probability;
+				// Only conditional steps feed "pre"; pre/!pre read it without overwriting it
+				if ((condition !== "always" || probability < 1) && condition !== "pre" && condition !== "!pre") {
+					engineSch.lastConditionResult = isStepTriggered;
+				}
+			}
+			
+			const secondsPerStep = (60 / latestStateRef.current.bpm) * getEngineBeatsPerStep(engine);
+
+			// Swing and micro-timing only shift the events of this step, never the grid
+			// itself, so the step clock stays locked to the internal, MIDI or Link source.
+			// Swing follows the running step count so odd-length patterns keep alternating.
+			const swing = Math.min(1, Math.max(0, (engine.swing ?? 0) + latestStateRef.current.globalSwing));
+			const swingOffset = engineSch.stepsPlayed % 2 === 1 ? swing * 0.5 * secondsPerStep : 0;
+			const stepTime = time + swingOffset + stepParams.microTiming * secondsPerStep;
+
+			// Mute links from other engines silence steps without stopping the clock
+			engineSch.linkMuteWindows = engineSch.linkMuteWindows.filter(w => w.end > time);
+			if (engineSch.linkMuteWindows.some(w => stepTime >= w.start && stepTime < w.end)) {
+				isStepTriggered = false;
+			}
+
+			// Decide the following step now so ties can look ahead in any playback direction
+			const stepsPlayed = currentStepForNote >= 0 ? engineSch.stepsPlayed + 1 : engineSch.stepsPlayed;
+			const next = getNextSequencerStep(
+				engine.playbackDirection ?? "forward",
+				currentStepForNote,
+				engine.sequencerSteps,
+				engineSch.isMovingForward,
+				stepsPlayed
+			);
+			const isTiedToNext = engine.sequence[next.step] === 2;
+
+			if (currentStepForNote >= 0) {
+				engineSch.recentSteps.push({ time: stepTime, step: stepIndexToRead });
+				if (engineSch.recentSteps.length > 8) engineSch.recentSteps.shift();
+			}
+			// A tie only continues a gate that is actually being held
+			const isTieStep = engine.sequence[stepIndexToRead] === 2 && engineSch.isTieHeld;
+
+			// Release anything still held if the tie chain was broken (e.g. the pattern was edited)
+			if (!isTieStep && engineSch.heldNoteIds.length > 0) {
+				engineSch.heldNoteIds.forEach(noteId => noteOff(noteId, time));
+				engineSch.heldNoteIds = [];
+				engineSch.heldFreqs = [];
+			}
+			if (!isTieStep) {
+				engineSch.isTieHeld = false;
+			}
 			
-			if (engine.sequence[stepIndexToRead] === 1) {
+			// Ratchets split a triggered step into evenly spaced sub-triggers
+			const ratchetCount = isStepTriggered ? Math.max(1, Math.round(stepParams.ratchet)) : 1;
+			const subStepDuration = secondsPerStep / ratchetCount;
+
+			if (isStepTriggered) {
 				const noteIdBase = `seq_${engine.id}_${currentStepForNote}_${time}`;
+				const noteDuration = subStepDuration * stepParams.gate;
 				
 				// Only trigger notes if sequencer is enabled
 				if (engine.sequencerEnabled) {
-					if (engine.useMelodicSequence) {
-						const freqs = engine.melodicSequence[stepIndexToRead];
-						if (Array.isArray(freqs)) {
-							freqs.forEach((freq, i) => {
-								const noteId = `${noteIdBase}_${i}`;
-								const midiNote = frequencyToMidiNote(freq);
-								noteOn(engine.id, noteId, midiNote, time, freq);
-							});
+					for (let r = 0; r < ratchetCount; r++) {
+						const subTime = stepTime + r * subStepDuration;
+						const repeatIdBase = r === 0 ? noteIdBase : `${noteIdBase}_r${r}`;
+						const repeatVelocity = stepVelocity * (1 - stepParams.ratchetDecay * r / ratchetCount);
+						const noteIds: string[] = [];
+						const playedFreqs: number[] = [];
+						if (engine.useMelodicSequence) {
+							const freqs = engine.melodicSequence[stepIndexToRead];
+							if (Array.isArray(freqs)) {
+								freqs.forEach((stepFreq, i) => {
+									const noteId = `${repeatIdBase}_${i}`;
+									const freq = harmonize(engine, stepFreq);
+									const midiNote = frequencyToMidiNote(freq);
+									noteOn(engine.id, noteId, midiNote, subTime, freq, repeatVelocity, stepParams);
+									noteIds.push(noteId);
+									playedFreqs.push(freq);
+								});
+							}
+						} else {
+							const freq = harmonize(engine, engine.synth.frequency);
+							const midiNote = frequencyToMidiNote(freq);
+							noteOn(engine.id, repeatIdBase, midiNote, subTime, freq, repeatVelocity, stepParams);
+							noteIds.push(repeatIdBase);
+							playedFreqs.push(freq);
 						}
-					} else {
-						const freq = engine.synth.frequency;
-						const midiNote = frequencyToMidiNote(freq);
-						noteOn(engine.id, noteIdBase, midiNote, time, freq);
-					}
-				}
-				
-				const secondsPerStep = (60 / latestStateRef.current.bpm) / (parseInt(engine.sequencerRate.split('/')[1]) / 4);
-				const noteDuration = secondsPerStep * 0.8; 
-				const modGateDuration = secondsPerStep * 0.95;
 
-				if (engine.sequencerEnabled) {
-					if (!engine.useMelodicSequence) {
-						noteOff(noteIdBase, time + noteDuration);
-					} else {
-						const freqs = engine.melodicSequence[stepIndexToRead];
-						if (Array.isArray(freqs)) {
-							freqs.forEach((_, i) => {
-								noteOff(`${noteIdBase}_${i}`, time + noteDuration);
-							});
+						if (isTiedToNext && r === ratchetCount - 1) {
+							// Keep the gate open; the last tied step schedules the release
+							engineSch.heldNoteIds = noteIds;
+							engineSch.heldFreqs = playedFreqs;
+						} else {
+							noteIds.forEach(noteId => noteOff(noteId, subTime + noteDuration));
 						}
 					}
 				}
+				engineSch.isTieHeld = isTiedToNext;
+			} else if (isTieStep) {
+				// Extend the held notes without retriggering the envelope
+				const freqs = engine.melodicSequence[stepIndexToRead];
+				if (
+					latestStateRef.current.voicingMode === "legato" &&
+					engine.useMelodicSequence &&
+					Array.isArray(freqs) &&
+					freqs.length > 0
+				) {
+					const { bpm, isGlideSynced, glideSyncRateIndex, glideTime } = latestStateRef.current;
+					const glideTimeSec = Math.max(0.005, calculateTimeFromSync(bpm, isGlideSynced, glideSyncRateIndex, syncRates, glideTime) / 1000);
+					engineSch.heldNoteIds.forEach((noteId, i) => {
+						const fromFreq = engineSch.heldFreqs[i];
+						if (freqs[i] === undefined) return;
+						const toFreq = harmonize(engine, freqs[i]);
+						if (Math.abs(toFreq - fromFreq) < 0.01) return;
+						const voice = activeVoicesRef.current.get(noteId);
+						voice?.sourceNodes.forEach(node => {
+							if (node instanceof OscillatorNode) {
+								const ratio = voice.pitchRatios?.get(node) ?? 1;
+								node.frequency.cancelScheduledValues(stepTime);
+								node.frequency.setValueAtTime(fromFreq * ratio, stepTime);
+								node.frequency.linearRampToValueAtTime(toFreq * ratio, stepTime + glideTimeSec);
+							}
+						});
+						engineSch.heldFreqs[i] = toFreq;
+					});
+					lastPlayedNotePerEngineRef.current.set(engine.id, frequencyToMidiNote(freqs[0]));
+				}
+
+				if (!isTiedToNext) {
+					engineSch.heldNoteIds.forEach(noteId => noteOff(noteId, stepTime + secondsPerStep * stepParams.gate));
+					engineSch.heldNoteIds = [];
+					engineSch.heldFreqs = [];
+					engineSch.isTieHeld = false;
+				}
+			}
+
+			if (isStepTriggered || isTieStep) {
 
 				// Calculate modulation value based on pitch if melodic
 				let modValue = 1.0;
 				if (engine.useMelodicSequence) {
-					const freqs = engine.melodicSequence[stepIndexToRead];
+					const freqs = isTieStep && engineSch.heldFreqs.length > 0
+						? engineSch.heldFreqs
+						: engine.melodicSequence[stepIndexToRead];
 					if (Array.isArray(freqs) && freqs.length > 0) {
 						// Use the first note's pitch for modulation
 						const midiNote = frequencyToMidiNote(freqs[0]);
@@ -8076,17 +12281,57 @@ const App: React.FC = () => {
 
 				// Modulation events happen regardless of sequencerEnabled
 				// Set the modulation source offset (value) for this step
-				engineNodes.sequencerModSource.offset.setValueAtTime(modValue, time);
-				
-				// Open the gate
-				engineNodes.sequencerModGate.gain.setValueAtTime(1.0, time);
-				engineNodes.sequencerModGate.gain.setValueAtTime(0.0, time + modGateDuration);
+				engineNodes.sequencerModSource.offset.setValueAtTime(modValue, stepTime);
 				
+				// Open the gate (once per ratchet repeat)
 				const modEvents = sequencerModEventsRef.current.get(engine.id) || [];
-				modEvents.push({ start: time, end: time + modGateDuration, value: modValue });
+				for (let r = 0; r < ratchetCount; r++) {
+					const gateStart = stepTime + r * subStepDuration;
+					// Tied gates stay open across the step boundary
+					const modGateDuration = isTiedToNext && r === ratchetCount - 1
+						? subStepDuration
+						: subStepDuration * 0.95;
+					engineNodes.sequencerModGate.gain.setValueAtTime(1.0, gateStart);
+					engineNodes.sequencerModGate.gain.setValueAtTime(0.0, gateStart + modGateDuration);
+					modEvents.push({ start: gateStart, end: gateStart + modGateDuration, value: modValue });
+				}
 				sequencerModEventsRef.current.set(engine.id, modEvents);
 			}
 
+			// --- Cross-engine links ---
+			const isCycleStart = engineSch.isCycleStart && currentStepForNote >= 0;
+			(engine.links || []).forEach(link => {
+				if (link.target === engine.id) return;
+				if (link.source === "step" ? !isStepTriggered : !isCycleStart) return;
+				const targetSch = engineSchedulerStates.current.get(link.target);
+				const target = latestStateRef.current.engines.find(e => e.id === link.target);
+				if (!targetSch || !target) return;
+				switch (link.action) {
+					case "reset":
+						targetSch.pendingResetTime = stepTime;
+						break;
+					case "mute":
+						targetSch.linkMuteWindows.push({ start: stepTime, end: stepTime + secondsPerStep });
+						break;
+					case "trigger": {
+						// Play the target's note at its current position once
+						const targetStep = Math.max(0, targetSch.currentStep) % target.sequencerSteps;
+						const targetParams = getStepParams(target, targetStep);
+						const targetDuration = (60 / latestStateRef.current.bpm) * getEngineBeatsPerStep(target) * targetParams.gate;
+						const freqs = target.useMelodicSequence && target.melodicSequence[targetStep]?.length
+							? target.melodicSequence[targetStep]
+							: [target.synth.frequency];
+						freqs.forEach((stepFreq, i) => {
+							const noteId = `seq_${target.id}_link_${engine.id}_${stepTime}_${i}`;
+							const freq = harmonize(target, stepFreq);
+							noteOn(target.id, noteId, frequencyToMidiNote(freq), stepTime, freq, getStepVelocity(targetParams), targetParams);
+							noteOff(noteId, stepTime + targetDuration);
+						});
+						break;
+					}
+				}
+			});
+
 			const now = audioContext?.currentTime || 0;
 			setTimeout(() => {
 				if (isTransportPlaying) {
@@ -8094,10 +12339,19 @@ const App: React.FC = () => {
 				}
 			}, Math.max(0, (time - now) * 1000));
 
-			engineSch.currentStep = (engineSch.currentStep + 1) % engine.sequencerSteps;
+			engineSch.currentStep = next.step;
+			engineSch.isMovingForward = next.isMovingForward;
+			engineSch.stepsPlayed = stepsPlayed;
+			if (currentStepForNote >= 0) {
+				engineSch.beatPosition += getEngineBeatsPerStep(engine);
+			}
+			if (next.completedLoop && currentStepForNote >= 0) {
+				engineSch.loopCount++;
+			}
+			engineSch.isCycleStart = next.completedLoop;
 			
 			if (latestStateRef.current.clockSource === "internal" || latestStateRef.current.clockSource === "link") {
-				let secondsPerStep = (60 / latestStateRef.current.bpm) / (parseInt(engine.sequencerRate.split('/')[1]) / 4);
+				let secondsPerStep = (60 / latestStateRef.current.bpm) * getEngineBeatsPerStep(engine);
 				
 				// Apply Rate Modulation from Mod Matrix
 				let totalRateMod = 0;
@@ -8219,7 +12473,7 @@ const App: React.FC = () => {
         lookaheadTime: 25.0, // How often we wake up to schedule, in ms
         scheduleAheadTime: 0.1, // How far ahead to schedule audio, in seconds
     });
-    const engineSchedulerStates = useRef<Map<string, { nextNoteTime: number; currentStep: number }>>(new Map());
+    const engineSchedulerStates = useRef<Map<string, EngineSchedulerState>>(new Map());
 
     useEffect(() => {
         if (!audioContext) return;
@@ -8233,6 +12487,9 @@ const App: React.FC = () => {
             engineSchedulerStates.current.clear();
 			sequencerModEventsRef.current.clear();
             setSequencerCurrentSteps(new Map());
+			setQueuedPatterns(new Map());
+			currentChordIndexRef.current = 0;
+			setCurrentChordIndex(0);
             
             // Kill ONLY sequencer voices, keep MIDI voices alive
 			activeVoicesRef.current.forEach(voice => {
@@ -8249,10 +12506,8 @@ const App: React.FC = () => {
         // Initialize all engines for scheduling
         latestStateRef.current.engines.forEach(engine => {
             if (!engineSchedulerStates.current.has(engine.id)) {
-                engineSchedulerStates.current.set(engine.id, {
-                    nextNoteTime: audioContext.currentTime + 0.1, // Start scheduling shortly after play
-                    currentStep: 0,
-                });
+                // Start scheduling shortly after play
+                engineSchedulerStates.current.set(engine.id, createEngineSchedulerState(audioContext.currentTime + 0.1));
             }
         });
 
@@ -8281,19 +12536,69 @@ const App: React.FC = () => {
 						return;
 					}
 
-					latestStateRef.current.engines.forEach(engine => {
-						// if (!engine.sequencerEnabled) return; // REMOVED: Allow running in background
-						const engineSch = engineSchedulerStates.current.get(engine.id)!;
-						const engineNodes = audioNodesRef.current.get(engine.id);
-						if (!engineNodes) return;
-						
-						const secondsPerStep = (60 / latestStateRef.current.bpm) / (parseInt(engine.sequencerRate.split('/')[1]) / 4);
-
-						while (engineSch.nextNoteTime < scheduleUntil) {
-							advanceSequencer(engineSch.nextNoteTime);
+					// Steps nudged early are scheduled that much sooner so they don't land in the past
+					const earlyWindows = new Map(latestStateRef.current.engines.map(engine =>
+						[engine.id, getEngineEarlyWindow(engine, latestStateRef.current.bpm)]
+					));
+
+					// Advance engines in time order so cross-engine links land on the right steps.
+					// At equal times, engines that send links go first.
+					for (let pass = 0; pass < MAX_SCHEDULER_STEPS_PER_TICK; pass++) {
+						let earliest: { engine: EngineState; sch: EngineSchedulerState } | null = null;
+						for (const engine of latestStateRef.current.engines) {
+							// if (!engine.sequencerEnabled) continue; // REMOVED: Allow running in background
+							const engineSch = engineSchedulerStates.current.get(engine.id);
+							if (!engineSch || !audioNodesRef.current.get(engine.id)) continue;
+							// A bad bpm or rate from a malformed preset must not stall the scheduler
+							if (!Number.isFinite(engineSch.nextNoteTime)) continue;
+							if (engineSch.nextNoteTime >= scheduleUntil + (earlyWindows.get(engine.id) ?? 0)) continue;
+							if (
+								!earliest ||
+								engineSch.nextNoteTime < earliest.sch.nextNoteTime - 1e-6 ||
+								(Math.abs(engineSch.nextNoteTime - earliest.sch.nextNoteTime) <= 1e-6 &&
+									(engine.links?.length ?? 0) > 0 &&
+									(earliest.engine.links?.length ?? 0) === 0)
+							) {
+								earliest = { engine, sch: engineSch };
+							}
 						}
-					});
+						if (!earliest) break;
+						advanceSequencer(earliest.sch.nextNoteTime, earliest.engine.id);
+					}
+				}
+
+			// --- Schedule Arpeggiators (run with or without the transport) ---
+			latestStateRef.current.engines.forEach(engine => {
+				const arp = engine.arpeggiator;
+				const arpSch = arpStatesRef.current.get(engine.id);
+				if (!arpSch) return;
+				if (!arp?.enabled || !engine.midiControlled) {
+					arpStatesRef.current.delete(engine.id);
+					return;
 				}
+				if (!arp.latch) {
+					arpSch.heldNotes = arpSch.heldNotes.filter(n => arpSch.pressedNotes.has(n));
+				}
+				if (arpSch.heldNotes.length === 0) return;
+
+				const arpNotes = buildArpSequence(arpSch.heldNotes, arp.order, arp.octaves);
+				const secondsPerStep = (60 / latestStateRef.current.bpm) * getBeatsPerStep(arp.rate);
+				if (arpSch.nextNoteTime < now) arpSch.nextNoteTime = now;
+
+				while (arpSch.nextNoteTime < scheduleUntil) {
+					const note = arp.order === "random"
+						? getRandomElement(arpNotes)
+						: arpNotes[arpSch.index % arpNotes.length];
+					const noteId = `arp_${engine.id}_${arpSch.noteCount++}`;
+					// Octave copies play at the velocity of the held note they came from
+					const sourceNote = arpSch.heldNotes.find(n => note >= n && (note - n) % 12 === 0) ?? note;
+					noteOn(engine.id, noteId, note, arpSch.nextNoteTime, getMidiNoteFrequency(note), arpSch.velocities.get(sourceNote) ?? 1);
+					noteOff(noteId, arpSch.nextNoteTime + secondsPerStep * arp.gate);
+					arpSch.index = (arpSch.index + 1) % arpNotes.length;
+					arpSch.nextNoteTime += secondsPerStep;
+				}
+			});
+
                 activeVoicesRef.current.forEach((voice) => {
                     if (!voice.granularModeEnabled || !voice.nextGrainTime) return;
 
@@ -8489,6 +12794,142 @@ const App: React.FC = () => {
 		setupMidi();
 	}, []);
 	
+	// MIDI input follows the chord track when enabled (undefined = play the note as is)
+	const getMidiNoteFrequency = useCallback((note: number): number | undefined => {
+		const { chordTrack, scale, transpose, harmonicTuningSystem } = latestStateRef.current;
+		if (!chordTrack.enabled || !chordTrack.followMidi) return undefined;
+		const chord = chordTrack.chords[currentChordIndexRef.current];
+		if (!chord) return undefined;
+		// The note number is known here, so skip the frequency round trip
+		const target = harmonizeMidiNote(note + transpose, chord, chordTrack.mode, getScaleSteps(scale), transpose);
+		return midiNoteToFrequency(target, harmonicTuningSystem);
+	}, []);
+
+	// --- Arpeggiator ---
+	const arpNoteOn = useCallback((engineId: string, note: number, time: number, velocity: number = 1) => {
+		const arp = latestStateRef.current.engines.find(e => e.id === engineId)?.arpeggiator ?? DEFAULT_ARPEGGIATOR;
+		let arpSch = arpStatesRef.current.get(engineId);
+		if (!arpSch) {
+			arpSch = { heldNotes: [], pressedNotes: new Set(), velocities: new Map(), nextNoteTime: time, index: 0, noteCount: 0 };
+			arpStatesRef.current.set(engineId, arpSch);
+		}
+		// In latch mode a new chord replaces the latched one
+		if (arp.latch && arpSch.pressedNotes.size === 0) {
+			arpSch.heldNotes = [];
+		}
+		if (arpSch.heldNotes.length === 0) {
+			arpSch.nextNoteTime = time;
+			arpSch.index = 0;
+		}
+		arpSch.pressedNotes.add(note);
+		arpSch.velocities.set(note, velocity);
+		if (!arpSch.heldNotes.includes(note)) arpSch.heldNotes.push(note);
+	}, []);
+
+	const arpNoteOff = useCallback((engineId: string, note: number) => {
+		const arpSch = arpStatesRef.current.get(engineId);
+		if (!arpSch) return;
+		arpSch.pressedNotes.delete(note);
+		const arp = latestStateRef.current.engines.find(e => e.id === engineId)?.arpeggiator;
+		if (!arp?.latch) {
+			arpSch.heldNotes = arpSch.heldNotes.filter(n => n !== note);
+		}
+	}, []);
+
+	// --- MIDI Recording ---
+	const writeRecordedStep = useCallback((engineId: string, stepIndex: number, freqs: number[], replace: boolean) => {
+		setEngines(prevEngines =>
+			prevEngines.map(engine => {
+				if (engine.id !== engineId) return engine;
+				const index = stepIndex % engine.sequencerSteps;
+				const melodicSequence = [...engine.melodicSequence];
+				const existing = replace ? [] : melodicSequence[index] || [];
+				melodicSequence[index] = [...existing, ...freqs.filter(f => !existing.some(e => Math.abs(e - f) < 0.1))];
+				const sequence = [...engine.sequence];
+				if (sequence[index] !== 2) sequence[index] = 1;
+				return { ...engine, melodicSequence, sequence, useMelodicSequence: true };
+			})
+		);
+	}, []);
+
+	const moveStepRecordCursor = useCallback((engineId: string, position: number) => {
+		const engine = latestStateRef.current.engines.find(e => e.id === engineId);
+		if (!engine) return;
+		const rec = stepRecordStateRef.current.get(engineId) ?? { position: 0, heldNotes: new Set<number>(), chord: [] };
+		rec.position = ((position % engine.sequencerSteps) + engine.sequencerSteps) % engine.sequencerSteps;
+		rec.heldNotes.clear();
+		rec.chord = [];
+		stepRecordStateRef.current.set(engineId, rec);
+		setStepRecordPositions(prev => ({ ...prev, [engineId]: rec.position }));
+	}, []);
+
+	// Writes a rest at the step-record cursor and moves on
+	const handleStepRecordRest = useCallback((engineId: string) => {
+		const position = stepRecordStateRef.current.get(engineId)?.position ?? 0;
+		setEngines(prevEngines =>
+			prevEngines.map(engine => {
+				if (engine.id !== engineId) return engine;
+				const index = position % engine.sequencerSteps;
+				const melodicSequence = [...engine.melodicSequence];
+				melodicSequence[index] = [];
+				const sequence = [...engine.sequence];
+				sequence[index] = 0;
+				return { ...engine, melodicSequence, sequence };
+			})
+		);
+		moveStepRecordCursor(engineId, position + 1);
+	}, [moveStepRecordCursor]);
+
+	const handleRecordModeChange = useCallback((engineId: string, mode: RecordMode) => {
+		setRecordModes(prev => ({ ...prev, [engineId]: mode }));
+		if (mode === "step") {
+			moveStepRecordCursor(engineId, stepRecordStateRef.current.get(engineId)?.position ?? 0);
+		}
+	}, [moveStepRecordCursor]);
+
+	const recordNoteOn = useCallback((engineId: string, note: number, time: number) => {
+		const { recordModes, engines, transpose, bpm } = latestStateRef.current;
+		const mode = recordModes[engineId] ?? "off";
+		const freq = midiNoteToFrequency(note + transpose, harmonicTuningSystem);
+
+		if (mode === "step") {
+			// Notes held together form a chord on the current step
+			const rec = stepRecordStateRef.current.get(engineId) ?? { position: 0, heldNotes: new Set<number>(), chord: [] };
+			if (rec.heldNotes.size === 0) rec.chord = [];
+			rec.heldNotes.add(note);
+			if (!rec.chord.includes(freq)) rec.chord.push(freq);
+			stepRecordStateRef.current.set(engineId, rec);
+			writeRecordedStep(engineId, rec.position, rec.chord, true);
+		} else if (mode === "live") {
+			const engine = engines.find(e => e.id === engineId);
+			const sch = engineSchedulerStates.current.get(engineId);
+			if (!engine || !sch || !isTransportPlaying || sch.recentSteps.length === 0) return;
+
+			// Quantize to the nearest scheduled step, including the one coming up next
+			const last = sch.recentSteps[sch.recentSteps.length - 1];
+			const candidates = [
+				...sch.recentSteps,
+				{ time: last.time + (60 / bpm) * getEngineBeatsPerStep(engine), step: sch.currentStep },
+			];
+			const nearest = candidates.reduce((best, c) =>
+				Math.abs(c.time - time) < Math.abs(best.time - time) ? c : best
+			);
+			if (nearest.step >= 0) {
+				writeRecordedStep(engineId, nearest.step, [freq], false);
+			}
+		}
+	}, [harmonicTuningSystem, isTransportPlaying, writeRecordedStep]);
+
+	const recordNoteOff = useCallback((engineId: string, note: number) => {
+		if ((latestStateRef.current.recordModes[engineId] ?? "off") !== "step") return;
+		const rec = stepRecordStateRef.current.get(engineId);
+		if (!rec || !rec.heldNotes.delete(note)) return;
+		// Move on once the whole chord has been released
+		if (rec.heldNotes.size === 0) {
+			moveStepRecordCursor(engineId, rec.position + 1);
+		}
+	}, [moveStepRecordCursor]);
+
 	// MIDI Message Handler
 	const lastClockTimeRef = useRef(0);
 	const bpmHistoryRef = useRef<number[]>([]);
@@ -8524,14 +12965,30 @@ const App: React.FC = () => {
 			if (isNoteInput) {
 				if(command === 9 && velocity > 0) { // Note On
 					latestStateRef.current.engines.forEach(engine => {
-						if(engine.midiControlled) {
-							noteOn(engine.id, `midi_${engine.id}_${channel}_${note}`, note, now);
+						// Record-armed engines also monitor the input
+						const isArmed = (latestStateRef.current.recordModes[engine.id] ?? "off") !== "off";
+						if (engine.midiControlled && engine.arpeggiator?.enabled) {
+							arpNoteOn(engine.id, note, now, velocity / 127);
+						} else if(engine.midiControlled || isArmed) {
+							const noteId = `midi_${engine.id}_${channel}_${note}`;
+							midiVelocitiesRef.current.set(noteId, velocity / 127);
+							noteOn(engine.id, noteId, note, now, getMidiNoteFrequency(note), velocity / 127);
+						}
+						if (isArmed) {
+							recordNoteOn(engine.id, note, now);
 						}
 					})
 				} else if (command === 8 || (command === 9 && velocity === 0)) { // Note Off
 					latestStateRef.current.engines.forEach(engine => {
-						if(engine.midiControlled) {
+						const isArmed = (latestStateRef.current.recordModes[engine.id] ?? "off") !== "off";
+						if (engine.midiControlled && engine.arpeggiator?.enabled) {
+							arpNoteOff(engine.id, note);
+						} else if(engine.midiControlled || isArmed) {
 							noteOff(`midi_${engine.id}_${channel}_${note}`, now);
+							midiVelocitiesRef.current.delete(`midi_${engine.id}_${channel}_${note}`);
+						}
+						if (isArmed) {
+							recordNoteOff(engine.id, note);
 						}
 					})
 				} else if (command === 0xB) { // Control Change
@@ -8587,12 +13044,33 @@ const App: React.FC = () => {
 						lastClockTimeRef.current = now;
 					}
 
-					if (midiClockCounterRef.current % 6 === 0) {
-						// Advance step every 6 pulses (16th note)
-						// Only advance if transport is playing!
-						if (isTransportPlaying) {
-							advanceSequencer(now);
-						}
+					// Advance each engine after its own number of pulses (24 per beat).
+					// Rates that fall between pulses are scheduled ahead at the exact fraction,
+					// and steps nudged early are scheduled that many pulses sooner.
+					// Only advance if transport is playing!
+					if (isTransportPlaying) {
+						const pulseDuration = 60 / latestStateRef.current.bpm / 24;
+						const dueSteps: { engine: EngineState; stepTime: number }[] = [];
+						latestStateRef.current.engines.forEach(engine => {
+							const engineSch = engineSchedulerStates.current.get(engine.id);
+							if (!engineSch) return;
+							const pulsesPerStep = getEngineBeatsPerStep(engine) * 24;
+							const leadPulses = getEngineEarlyWindow(engine, latestStateRef.current.bpm) / pulseDuration;
+							engineSch.midiClockPulses++;
+							while (engineSch.midiClockPulses + 1 + leadPulses > pulsesPerStep + 1e-6) {
+								const stepTime = now + Math.max(0, pulsesPerStep - engineSch.midiClockPulses) * pulseDuration;
+								engineSch.midiClockPulses -= pulsesPerStep;
+								dueSteps.push({ engine, stepTime });
+							}
+						});
+						// Same order as the internal clock: by time, link senders first at equal times
+						dueSteps
+							.sort((a, b) =>
+								Math.abs(a.stepTime - b.stepTime) > 1e-6
+									? a.stepTime - b.stepTime
+									: Number((b.engine.links?.length ?? 0) > 0) - Number((a.engine.links?.length ?? 0) > 0)
+							)
+							.forEach(({ engine, stepTime }) => advanceSequencer(stepTime, engine.id));
 					}
 				} else if (event.data[0] === 0xFA) { // Start
 					setIsTransportPlaying(true);
@@ -8600,9 +13078,10 @@ const App: React.FC = () => {
 					lastClockTimeRef.current = 0;
 					bpmHistoryRef.current = [];
 					// Reset sequencers
-					engineSchedulerStates.current.forEach((val) => {
-						val.currentStep = -1; // Will become 0 on next advance
-						val.nextNoteTime = now;
+					engineSchedulerStates.current.forEach((val, engineId) => {
+						val.heldNoteIds.forEach(noteId => noteOff(noteId, now));
+						// Step -1 becomes 0 on the next advance
+						engineSchedulerStates.current.set(engineId, createEngineSchedulerState(now, -1));
 					});
 					sequencerCurrentSteps.forEach((_, key) => {
 						setSequencerCurrentSteps(prev => new Map(prev).set(key, 0));
@@ -8625,7 +13104,7 @@ const App: React.FC = () => {
 				input.onmidimessage = null; 
 			});
 		}
-	}, [selectedMidiInputId, selectedMidiClockInputId, midiInputs, audioContext, noteOn, noteOff, harmonicTuningSystem, isTransportPlaying]);
+	}, [selectedMidiInputId, selectedMidiClockInputId, midiInputs, audioContext, noteOn, noteOff, harmonicTuningSystem, isTransportPlaying, recordNoteOn, recordNoteOff, arpNoteOn, arpNoteOff, getMidiNoteFrequency]);
 
 	// Memoize a string representing the structure of the effects chain.
     // This will only change if effects are added, removed, reordered, enabled/disabled,
@@ -9288,9 +13767,7 @@ const App: React.FC = () => {
 			const engineNodes = audioNodesRef.current.get(engine.id);
 			if (!engineNodes) return;
 	
-			const { sequencerModGate } = engineNodes;
-	
-			Object.entries(engine.routing).forEach(([dest, isConnected]) => {
+			const connectRouting = (source: AudioNode, routing: LFORoutingState) => Object.entries(routing).forEach(([dest, isConnected]) => {
 				const destKey = dest as keyof LFORoutingState;
 				let targetBus: GainNode | undefined;
 	
@@ -9307,24 +13784,34 @@ const App: React.FC = () => {
 	
 				if (targetBus) {
 					try {
-						sequencerModGate.disconnect(targetBus);
+						source.disconnect(targetBus);
 					} catch (e) {
 						// Ignore disconnection errors
 					}
 					if (isConnected) {
-						sequencerModGate.connect(targetBus);
+						source.connect(targetBus);
 					}
 				}
 			});
+
+			connectRouting(engineNodes.sequencerModGate, engine.routing);
+			connectRouting(engineNodes.velocityModSource, engine.velocityRouting ?? DEFAULT_LFO_ROUTING_STATE);
+			connectRouting(engineNodes.keyModSource, engine.keyRouting ?? DEFAULT_LFO_ROUTING_STATE);
 		});
 	}, [audioContext, engines]);
 
 	// Real-time Frequency Update (for manual slider/dropdown changes)
+	// The scheduler also updates engines (patterns, generators), so only a real
+	// change of the base frequency may retune the sounding voices.
+	const lastSynthFrequenciesRef = useRef<Map<string, number>>(new Map());
 	useEffect(() => {
 		if (!audioContext) return;
 		const now = audioContext.currentTime;
 
 		engines.forEach(engine => {
+			const lastFrequency = lastSynthFrequenciesRef.current.get(engine.id);
+			lastSynthFrequenciesRef.current.set(engine.id, engine.synth.frequency);
+			if (lastFrequency === undefined || lastFrequency === engine.synth.frequency) return;
 			if (engine.synth.enabled) {
 				activeVoicesRef.current.forEach(voice => {
 					if (voice.engineId === engine.id) {
@@ -9347,7 +13834,8 @@ const App: React.FC = () => {
 								// Let's rely on the fact that this useEffect runs when 'engines' changes.
 								// 'engines' changes when the slider moves.
 								// So this will only fire when the user interacts with the UI (or automation).
-								node.frequency.setTargetAtTime(engine.synth.frequency, now, 0.01);
+								const ratio = voice.pitchRatios?.get(node) ?? 1;
+								node.frequency.setTargetAtTime(engine.synth.frequency * ratio, now, 0.01);
 							}
 						});
 					}
@@ -9356,6 +13844,17 @@ const App: React.FC = () => {
 		});
 	}, [engines, audioContext]);
 
+	// Wavetable position follows the slider; LFOs/MSEGs add to it through the mod bus
+	useEffect(() => {
+		if (!audioContext) return;
+		const now = audioContext.currentTime;
+		engines.forEach(engine => {
+			const engineNodes = audioNodesRef.current.get(engine.id);
+			if (!engineNodes) return;
+			engineNodes.wavetablePosition.offset.setTargetAtTime(engine.synth.wavetable?.position ?? 0, now, 0.01);
+		});
+	}, [engines, audioContext]);
+
 	// Morphing Animation Loop
 	useEffect(() => {
 		if (!isMorphing || !audioContext) return;
@@ -9957,6 +14456,37 @@ const App: React.FC = () => {
 		}
 	}, [audioContext]);
 	
+	// Wavetable Loading: each file adds its frames, up to WAVETABLE_MAX_FRAMES
+	const handleLoadWavetable = useCallback(async (engineId: string, files: File[], frameSize: number) => {
+		if (!audioContext || files.length === 0) return;
+		try {
+			const frames: number[][] = [];
+			for (const file of files) {
+				const arrayBuffer = await file.arrayBuffer();
+				// Read before decoding, which detaches the buffer
+				const fileSampleRate = readWavSampleRate(arrayBuffer) ?? audioContext.sampleRate;
+				const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+				frames.push(...extractWavetableFrames(audioBuffer, fileSampleRate, frameSize));
+			}
+			const name = files.length === 1 ? files[0].name : `${files.length} files`;
+			setEngines(prev => prev.map(e => e.id === engineId ? {
+				...e,
+				synth: {
+					...e.synth,
+					oscillatorType: "wavetable",
+					wavetable: {
+						...(e.synth.wavetable ?? createDefaultWavetable()),
+						frames: frames.slice(0, WAVETABLE_MAX_FRAMES),
+						name,
+					},
+				},
+			} : e));
+		} catch (error) {
+			console.error("Error decoding wavetable file:", error);
+			alert("Failed to load wavetable. Please use a WAV file of one or more single cycles.");
+		}
+	}, [audioContext]);
+
 	const handleSnapToScale = useCallback((engineId: string) => {
 		const engine = engines.find(e => e.id === engineId);
 		if (!engine || scaleFrequencies.length === 0) return;
@@ -9999,10 +14529,32 @@ const App: React.FC = () => {
 							newMelodic[i] = oldMelodic[i % oldMelodic.length];
 						}
 						newEngineState.melodicSequence = newMelodic;
+						newEngineState.stepParams = resizeStepParams(oldEngine.stepParams, newSteps);
 					}
 
-					// Regenerate euclidean sequence if any rhythmic parameter changed
-					if (stepsChanged || pulsesChanged || rotateChanged) {
+					const modeChanged = updates.sequencerMode !== undefined && updates.sequencerMode !== oldEngine.sequencerMode;
+					// Lock changes only take effect from the next cycle
+					const turingChanged = updates.turing !== undefined && (
+						updates.turing.length !== oldEngine.turing?.length ||
+						updates.turing.register !== oldEngine.turing?.register
+					);
+
+					const automatonChanged = updates.automaton !== undefined && (
+						updates.automaton.rule !== oldEngine.automaton?.rule ||
+						updates.automaton.seed !== oldEngine.automaton?.seed
+					);
+
+					if (newEngineState.sequencerMode === "turing") {
+						if (stepsChanged || pulsesChanged || rotateChanged || modeChanged || turingChanged) {
+							const isMelodyLocked = !!latestStateRef.current.lockState.engines[engineId]?.melodicSequence;
+							return applyTuringPattern(newEngineState, scaleFrequenciesRef.current.map(f => f.value), isMelodyLocked);
+						}
+					} else if (newEngineState.sequencerMode === "automaton") {
+						if (stepsChanged || rotateChanged || modeChanged || automatonChanged) {
+							return resetAutomaton(newEngineState);
+						}
+					} else if (stepsChanged || pulsesChanged || rotateChanged || modeChanged) {
+						// Regenerate euclidean sequence if any rhythmic parameter changed
 						const pattern = generateEuclideanPattern(newEngineState.sequencerSteps, newEngineState.sequencerPulses);
 						newEngineState.sequence = rotatePattern(pattern, newEngineState.sequencerRotate);
 					}
@@ -10014,6 +14566,41 @@ const App: React.FC = () => {
 		);
 	}, []);
 
+	const handleStepParamsUpdate = useCallback((engineId: string, stepIndex: number, updates: Partial<SequencerStepParams>) => {
+		setEngines(prevEngines =>
+			prevEngines.map(engine => {
+				if (engine.id !== engineId) return engine;
+				const stepParams = resizeStepParams(engine.stepParams, engine.sequencerSteps);
+				stepParams[stepIndex] = { ...stepParams[stepIndex], ...updates };
+				return { ...engine, stepParams };
+			})
+		);
+	}, []);
+
+	const handleMarkovGenerate = useCallback((engineId: string) => {
+		if (lockState.engines[engineId]?.melodicSequence) return;
+		setEngines(prevEngines =>
+			prevEngines.map(engine => {
+				if (engine.id !== engineId) return engine;
+				const melody = generateMarkovMelody(engine, scaleFrequencies.map(f => f.value), harmonicTuningSystem);
+				return melody ? { ...engine, melodicSequence: melody } : engine;
+			})
+		);
+	}, [lockState, scaleFrequencies, harmonicTuningSystem]);
+
+	// While playing, pattern changes wait for the next bar
+	const handleSelectPattern = useCallback((engineId: string, index: number) => {
+		const sch = engineSchedulerStates.current.get(engineId);
+		if (isTransportPlaying && sch) {
+			sch.queuedPatternIndex = index;
+			setQueuedPatterns(prev => new Map(prev).set(engineId, index));
+		} else {
+			setEngines(prevEngines =>
+				prevEngines.map(engine => engine.id === engineId ? switchEnginePattern(engine, index) : engine)
+			);
+		}
+	}, [isTransportPlaying]);
+
 	const handleToggleTransport = useCallback(() => {
 		const newState = !isTransportPlaying;
 		setIsTransportPlaying(newState);
@@ -10055,6 +14642,10 @@ const App: React.FC = () => {
 						setBPM={setBPM}
 						isTransportPlaying={isTransportPlaying}
 						onToggleTransport={handleToggleTransport}
+						globalSwing={globalSwing}
+						setGlobalSwing={setGlobalSwing}
+						isFillActive={isFillActive}
+						onToggleFill={() => setIsFillActive((prev) => !prev)}
 						onPanic={allNotesOff}
 						midiInputs={midiInputs}
 						selectedMidiInputId={selectedMidiInputId}
@@ -10122,6 +14713,8 @@ const App: React.FC = () => {
 								setMorphTime(d.morphTime ?? 1000);
 								setIsMorphSynced(d.isMorphSynced);
 								setMorphSyncRateIndex(d.morphSyncRateIndex);
+								setGlobalSwing(d.globalSwing ?? 0);
+								setChordTrack(d.chordTrack ?? DEFAULT_CHORD_TRACK);
 
 								// Load samples from DB
 								// Load samples from DB
@@ -10189,6 +14782,8 @@ const App: React.FC = () => {
 								morphTime: morphTime,
 								isMorphSynced: isMorphSynced,
 								morphSyncRateIndex: morphSyncRateIndex,
+								globalSwing: globalSwing,
+								chordTrack: chordTrack,
 							})}
 						/>
 					</TopBar>
@@ -10225,6 +14820,14 @@ const App: React.FC = () => {
 						syncRates={syncRates}
 					/>
 
+					<ChordTrackPanel
+						chordTrack={chordTrack}
+						onUpdate={(updates) => setChordTrack(prev => ({ ...prev, ...updates }))}
+						currentChordIndex={currentChordIndex}
+						isTransportPlaying={isTransportPlaying}
+						scale={scale}
+					/>
+
 					<div className="master-visualizer-container">
 						<div className="visualizer-wrapper">
 							<div className="visualizer-label">MASTER</div>
@@ -10242,6 +14845,7 @@ const App: React.FC = () => {
 									setEngines(prev => prev.map(e => e.id === engineId ? {...e, [layer]: {...e[layer], ...updates}} : e))
 								}
 								onLoadSample={handleLoadSample}
+								onLoadWavetable={handleLoadWavetable}
 								onRecordSampleRequest={handleRecordSampleRequest}
 								onRecordSample={handleRecordSample}
 								onToggleLiveInput={handleToggleLiveInput}
@@ -10257,6 +14861,15 @@ const App: React.FC = () => {
 								scaleFrequencies={scaleFrequencies}
 								onSnapToScale={handleSnapToScale}
 								onOpenMelodyEditor={setEditingMelodyEngineId}
+								onStepUpdate={handleStepParamsUpdate}
+								onSelectPattern={handleSelectPattern}
+								queuedPatternIndex={queuedPatterns.get(engine.id)}
+								recordMode={recordModes[engine.id] ?? "off"}
+								stepRecordPosition={stepRecordPositions[engine.id] ?? 0}
+								onRecordModeChange={handleRecordModeChange}
+								onStepRecordRest={handleStepRecordRest}
+								onStepRecordReset={id => moveStepRecordCursor(id, 0)}
+								allEngines={engines}
 							/>
 						))}
 					</div>
@@ -10271,6 +14884,11 @@ const App: React.FC = () => {
 							onUpdateRhythm={(id, seq) =>
 								handleEngineUpdate(id, { sequence: seq })
 							}
+							onUpdateStep={handleStepParamsUpdate}
+							onUpdateEngine={handleEngineUpdate}
+							onGenerateMarkov={handleMarkovGenerate}
+							isMelodyLocked={!!lockState.engines[editingMelodyEngineId]?.melodicSequence}
+							onToggleMelodyLock={() => handleToggleLock(`engines.${editingMelodyEngineId}.melodicSequence`)}
 							onClose={() => setEditingMelodyEngineId(null)}
 							currentStep={engineSchedulerStates.current.get(editingMelodyEngineId)?.currentStep || 0}
 						/>